@@ -1,50 +1,131 @@
 import { RequestHandler } from 'express';
-import { Scenarios } from './types';
 
-export { modifyScenarios, resetScenarios };
+import { Faults } from './fault';
+import { Journal } from './journal';
+import { Sequences } from './sequence';
+import { getAdminSessionId } from './session';
+import { Context, ContextStrategy, Scenarios } from './types';
 
-function modifyScenarios({
-  scenarioNames,
+export {
+  getScenariosError,
+  contextStrategies,
+  getScenarios,
+  modifyScenarios,
+  resetScenarios,
+  getRequests,
+  clearRequests,
+  getSequences,
+  resetSequences,
+  getCurrentContext,
+  replaceContext,
+  mergeContext,
+  resetContext,
+  getNetworkProfileError,
+  getNetwork,
+  updateNetwork,
+  getFaultsError,
+  getFaults,
+  modifyFaults,
+};
+
+const contextStrategies: ContextStrategy[] = ['reset', 'merge', 'keep'];
+
+type SessionContext = {
+  getContext: () => Context;
+  setContext: (context: Context) => void;
+  initialContext: Context;
+};
+
+// Returns the reason the scenarios cannot be selected, if there is one
+function getScenariosError({
+  scenarios,
   scenarioMocks,
-  updateScenarios,
 }: {
-  scenarioNames: string[];
+  scenarios: unknown;
   scenarioMocks: Scenarios;
-  updateScenarios: (scenarios: string[]) => void;
-}): RequestHandler {
-  return ({ body: { scenarios: scenariosBody } }, res) => {
-    if (!Array.isArray(scenariosBody)) {
-      res.status(400).json({
-        message:
-          '"scenarios" must be an array of scenario names (empty array allowed)',
-      });
-      return;
+}) {
+  const scenarioNames = Object.keys(scenarioMocks);
+  if (!Array.isArray(scenarios)) {
+    return '"scenarios" must be an array of scenario names (empty array allowed)';
+  }
+
+  const scenariosByGroup: { [key: string]: string } = {};
+  for (const scenario of scenarios) {
+    if (!scenarioNames.includes(scenario)) {
+      return `Scenario "${scenario}" does not exist`;
     }
 
-    const scenariosByGroup: { [key: string]: number } = {};
-    for (const scenario of scenariosBody) {
-      if (!scenarioNames.includes(scenario)) {
-        res.status(400).json({
-          message: `Scenario "${scenario}" does not exist`,
-        });
-        return;
+    const scenarioMock = scenarioMocks[scenario];
+    if (!Array.isArray(scenarioMock) && scenarioMock.group) {
+      const { group } = scenarioMock;
+      if (scenariosByGroup[group]) {
+        return `Scenario "${scenario}" cannot be selected, because scenario "${scenariosByGroup[group]}" from group "${group}" has already been selected`;
       }
 
-      const scenarioMock = scenarioMocks[scenario];
-      if (!Array.isArray(scenarioMock) && scenarioMock.group) {
-        const { group } = scenarioMock;
-        if (scenariosByGroup[group]) {
-          res.status(400).json({
-            message: `Scenario "${scenario}" cannot be selected, because scenario "${scenariosByGroup[group]}" from group "${group}" has already been selected`,
-          });
-          return;
-        }
-
-        scenariosByGroup[group] = scenario;
-      }
+      scenariosByGroup[group] = scenario;
+    }
+  }
+
+  return undefined;
+}
+
+function getContextStrategyError(contextStrategy: unknown) {
+  if (
+    contextStrategy !== undefined &&
+    !contextStrategies.includes(contextStrategy as ContextStrategy)
+  ) {
+    return '"contextStrategy" must be one of "reset", "merge" or "keep"';
+  }
+
+  return undefined;
+}
+
+function getScenarios({
+  getScenarioMocks,
+  getSelectedScenarios,
+}: {
+  getScenarioMocks: () => Scenarios;
+  getSelectedScenarios: (sessionId?: string) => string[];
+}): RequestHandler {
+  return (req, res) => {
+    const selectedScenarios = getSelectedScenarios(getAdminSessionId(req));
+
+    res.json(
+      Object.entries(getScenarioMocks()).map(([name, scenarioMock]) => ({
+        name,
+        group: Array.isArray(scenarioMock) ? undefined : scenarioMock.group,
+        selected: selectedScenarios.includes(name),
+      })),
+    );
+  };
+}
+
+function modifyScenarios({
+  getScenarioMocks,
+  updateScenarios,
+}: {
+  getScenarioMocks: () => Scenarios;
+  updateScenarios: (
+    scenarios: string[],
+    sessionId?: string,
+    contextStrategy?: ContextStrategy,
+  ) => void;
+}): RequestHandler {
+  return (req, res) => {
+    const {
+      body: { scenarios: scenariosBody, contextStrategy },
+    } = req;
+    const message =
+      getScenariosError({
+        scenarios: scenariosBody,
+        scenarioMocks: getScenarioMocks(),
+      }) || getContextStrategyError(contextStrategy);
+    if (message) {
+      res.status(400).json({ message });
+      return;
     }
 
-    updateScenarios(scenariosBody);
+    updateScenarios(scenariosBody, getAdminSessionId(req), contextStrategy);
 
     res.sendStatus(204);
   };
@@ -53,10 +134,225 @@ function modifyScenarios({
 function resetScenarios({
   updateScenarios,
 }: {
-  updateScenarios: (scenarios: string[]) => void;
+  updateScenarios: (
+    scenarios: string[],
+    sessionId?: string,
+    contextStrategy?: ContextStrategy,
+  ) => void;
+}): RequestHandler {
+  return (req, res) => {
+    const {
+      body: { contextStrategy },
+    } = req;
+    const message = getContextStrategyError(contextStrategy);
+    if (message) {
+      res.status(400).json({ message });
+      return;
+    }
+
+    updateScenarios([], getAdminSessionId(req), contextStrategy);
+    res.sendStatus(204);
+  };
+}
+
+function getRequests({ journal }: { journal: Journal }): RequestHandler {
+  return (req, res) => {
+    const { method, path, operationName, operationType, matched } = req.query;
+
+    res.json(
+      journal.getRequests({
+        session: getAdminSessionId(req),
+        method,
+        path,
+        operationName,
+        operationType,
+        matched: matched === undefined ? undefined : matched === 'true',
+      }),
+    );
+  };
+}
+
+function clearRequests({ journal }: { journal: Journal }): RequestHandler {
+  return (req, res) => {
+    journal.clearRequests(getAdminSessionId(req));
+    res.sendStatus(204);
+  };
+}
+
+function getSequences({
+  getCurrentSequences,
+}: {
+  getCurrentSequences: (sessionId?: string) => Sequences;
+}): RequestHandler {
+  return (req, res) => {
+    res.json(getCurrentSequences(getAdminSessionId(req)).getSequences());
+  };
+}
+
+function resetSequences({
+  getCurrentSequences,
+}: {
+  getCurrentSequences: (sessionId?: string) => Sequences;
+}): RequestHandler {
+  return (req, res) => {
+    getCurrentSequences(getAdminSessionId(req)).resetSequences();
+    res.sendStatus(204);
+  };
+}
+
+function getCurrentContext({
+  getSessionContext,
+}: {
+  getSessionContext: (sessionId?: string) => SessionContext;
+}): RequestHandler {
+  return ({ headers, query }, res) => {
+    res.json(
+      getSessionContext(getAdminSessionId({ headers, query })).getContext(),
+    );
+  };
+}
+
+// The body is the context, so the session can only be given in the header,
+// cookie or query
+function replaceContext({
+  getSessionContext,
+}: {
+  getSessionContext: (sessionId?: string) => SessionContext;
+}): RequestHandler {
+  return ({ headers, query, body }, res) => {
+    if (!isContext(body)) {
+      res.status(400).json({ message: 'Context must be a JSON object' });
+      return;
+    }
+
+    getSessionContext(getAdminSessionId({ headers, query })).setContext(body);
+    res.sendStatus(204);
+  };
+}
+
+function mergeContext({
+  getSessionContext,
+}: {
+  getSessionContext: (sessionId?: string) => SessionContext;
+}): RequestHandler {
+  return ({ headers, query, body }, res) => {
+    if (!isContext(body)) {
+      res.status(400).json({ message: 'Context must be a JSON object' });
+      return;
+    }
+
+    const { getContext, setContext } = getSessionContext(
+      getAdminSessionId({ headers, query }),
+    );
+    setContext({ ...getContext(), ...body });
+    res.sendStatus(204);
+  };
+}
+
+function resetContext({
+  getSessionContext,
+}: {
+  getSessionContext: (sessionId?: string) => SessionContext;
+}): RequestHandler {
+  return ({ headers, query }, res) => {
+    const { setContext, initialContext } = getSessionContext(
+      getAdminSessionId({ headers, query }),
+    );
+    setContext(initialContext);
+    res.sendStatus(204);
+  };
+}
+
+// Returns the reason the network profile cannot be selected, if there is one
+function getNetworkProfileError(profile: unknown, profileNames: string[]) {
+  if (
+    profile !== undefined &&
+    profile !== null &&
+    !profileNames.includes(profile as string)
+  ) {
+    return `"profile" must be one of ${profileNames
+      .map(name => `"${name}"`)
+      .join(', ')} or null`;
+  }
+
+  return undefined;
+}
+
+function getNetwork({
+  getNetworkProfile,
+  getNetworkProfileNames,
+}: {
+  getNetworkProfile: () => string | undefined;
+  getNetworkProfileNames: () => string[];
+}): RequestHandler {
+  return (_, res) => {
+    res.json({
+      profile: getNetworkProfile() || null,
+      profiles: getNetworkProfileNames(),
+    });
+  };
+}
+
+function updateNetwork({
+  getNetworkProfileNames,
+  setNetworkProfile,
+}: {
+  getNetworkProfileNames: () => string[];
+  setNetworkProfile: (profile?: string) => void;
 }): RequestHandler {
+  return ({ body: { profile } }, res) => {
+    const message = getNetworkProfileError(profile, getNetworkProfileNames());
+    if (message) {
+      res.status(400).json({ message });
+      return;
+    }
+
+    setNetworkProfile(profile || undefined);
+    res.sendStatus(204);
+  };
+}
+
+// Returns the reason the faults cannot be enabled, if there is one
+function getFaultsError(faults: unknown, faultNames: string[]) {
+  if (!Array.isArray(faults)) {
+    return '"faults" must be an array of fault names (empty array allowed)';
+  }
+
+  const missingFault = faults.find(fault => !faultNames.includes(fault));
+  if (missingFault !== undefined) {
+    return `Fault "${missingFault}" does not exist`;
+  }
+
+  return undefined;
+}
+
+function getFaults({ faults }: { faults: Faults }): RequestHandler {
   return (_, res) => {
-    updateScenarios([]);
+    const enabledFaults = faults.getEnabledFaults();
+
+    res.json(
+      Object.entries(faults.getFaults()).map(([name, { type }]) => ({
+        name,
+        type,
+        enabled: enabledFaults.includes(name),
+      })),
+    );
+  };
+}
+
+function modifyFaults({ faults }: { faults: Faults }): RequestHandler {
+  return ({ body: { faults: faultsBody } }, res) => {
+    const message = getFaultsError(faultsBody, Object.keys(faults.getFaults()));
+    if (message) {
+      res.status(400).json({ message });
+      return;
+    }
+
+    faults.setEnabledFaults(faultsBody);
     res.sendStatus(204);
   };
 }
+
+function isContext(body: any): body is Context {
+  return body !== null && typeof body === 'object' && !Array.isArray(body);
+}
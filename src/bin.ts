@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+import { cli } from './cli';
+
+cli(process.argv.slice(2)).catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,230 @@
+import http from 'http';
+import https from 'https';
+import path from 'path';
+
+import { run, runFile } from './index';
+import { loadConfigFile } from './mock-file';
+import { Default, MockServer, Options, Scenarios } from './types';
+
+export { cli };
+
+const usage = `Usage:
+  data-mocks-server <config> [--port <port>] [--ui-path <path>] [--scenarios <a,b>] [--watch]
+  data-mocks-server list [--url <url>] [--session <id>] [--modify-scenarios-path <path>]
+  data-mocks-server set <scenario>... [--url <url>] [--session <id>] [--modify-scenarios-path <path>]
+  data-mocks-server reset [--url <url>] [--session <id>] [--reset-scenarios-path <path>]
+  data-mocks-server context [--url <url>] [--session <id>] [--context-path <path>]`;
+
+type Config = {
+  default: Default;
+  scenarios?: Scenarios;
+  options?: Options;
+};
+
+type Flags = Record<string, string | true>;
+
+// Returns the server when one is started
+async function cli(args: string[]): Promise<MockServer | undefined> {
+  const { positionals, flags } = parseArgs(args);
+  const [command, ...rest] = positionals;
+
+  switch (command) {
+    case undefined:
+      console.log(usage);
+      return undefined;
+    case 'list':
+      await listScenarios(flags);
+      return undefined;
+    case 'set':
+      await sendAdminRequest(
+        'PUT',
+        getAdminPath(flags, 'modify-scenarios-path', '/modify-scenarios'),
+        flags,
+        { scenarios: rest },
+      );
+      return undefined;
+    case 'reset':
+      await sendAdminRequest(
+        'PUT',
+        getAdminPath(flags, 'reset-scenarios-path', '/reset-scenarios'),
+        flags,
+      );
+      return undefined;
+    case 'context':
+      console.log(
+        JSON.stringify(
+          await sendAdminRequest(
+            'GET',
+            getAdminPath(flags, 'context-path', '/context'),
+            flags,
+          ),
+          null,
+          2,
+        ),
+      );
+      return undefined;
+    default:
+      return startServer(command, flags);
+  }
+}
+
+function startServer(file: string, flags: Flags) {
+  const config = loadConfig(file);
+  const options: Options = {
+    ...config.options,
+    ...(typeof flags.port === 'string' ? { port: Number(flags.port) } : {}),
+    ...(typeof flags['ui-path'] === 'string'
+      ? { uiPath: flags['ui-path'] }
+      : {}),
+  };
+
+  const server = flags.watch
+    ? runFile({ file, options })
+    : run({ ...config, options });
+
+  if (typeof flags.scenarios === 'string') {
+    server.setScenarios(flags.scenarios.split(',').filter(Boolean));
+  }
+
+  return server;
+}
+
+async function listScenarios(flags: Flags) {
+  const scenarios: Array<{
+    name: string;
+    group?: string;
+    selected: boolean;
+  }> = await sendAdminRequest(
+    'GET',
+    getAdminPath(flags, 'modify-scenarios-path', '/modify-scenarios'),
+    flags,
+  );
+
+  scenarios.forEach(({ name, group, selected }) => {
+    console.log(`${selected ? '*' : ' '} ${name}${group ? ` (${group})` : ''}`);
+  });
+}
+
+function loadConfig(file: string): Config {
+  const configPath = path.resolve(file);
+  // Converted in the same way as mock files, e.g. { regex } urls
+  if (/\.(json|ya?ml)$/i.test(configPath)) {
+    return loadConfigFile(configPath);
+  }
+
+  if (/\.tsx?$/.test(configPath) && !require.extensions['.ts']) {
+    try {
+      require.resolve('ts-node');
+    } catch (error) {
+      throw new Error('"ts-node" must be installed to load TypeScript config');
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    require('ts-node').register();
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const config = require(configPath);
+  if (!config || !config.default) {
+    throw new Error(`"${file}" must export "default" mocks`);
+  }
+
+  return config;
+}
+
+// Servers can use other API paths, e.g. "--context-path /api/context"
+function getAdminPath(flags: Flags, name: string, defaultPath: string) {
+  const adminPath = flags[name];
+
+  return typeof adminPath === 'string' ? adminPath : defaultPath;
+}
+
+function sendAdminRequest(
+  method: string,
+  adminPath: string,
+  flags: Flags,
+  body?: Record<string, any>,
+): Promise<any> {
+  const baseUrl =
+    typeof flags.url === 'string' ? flags.url : 'http://localhost:3000';
+  const url = new URL(`${baseUrl.replace(/\/$/, '')}${adminPath}`);
+  const data = body ? JSON.stringify(body) : undefined;
+  const headers: Record<string, string | number> = data
+    ? {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(data),
+      }
+    : {};
+
+  if (typeof flags.session === 'string') {
+    headers['X-Mock-Session'] = flags.session;
+  }
+
+  return new Promise((resolve, reject) => {
+    const req = (url.protocol === 'https:' ? https : http).request(
+      url,
+      { method, headers },
+      res => {
+        let responseBody = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => {
+          responseBody += chunk;
+        });
+        res.on('end', () => {
+          let json;
+          try {
+            json = responseBody ? JSON.parse(responseBody) : undefined;
+          } catch (error) {
+            json = undefined;
+          }
+
+          if (res.statusCode && res.statusCode >= 400) {
+            reject(
+              new Error(
+                json && json.message
+                  ? json.message
+                  : `Request failed with status ${res.statusCode}`,
+              ),
+            );
+            return;
+          }
+
+          resolve(json);
+        });
+      },
+    );
+
+    req.on('error', reject);
+    req.end(data);
+  });
+}
+
+// Supports "--flag value", "--flag=value" and "--flag" for booleans
+function parseArgs(args: string[]) {
+  const positionals: string[] = [];
+  const flags: Flags = {};
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, value] = arg.slice(2).split(/=(.*)/);
+    if (value !== undefined) {
+      flags[name] = value;
+    } else if (
+      index + 1 < args.length &&
+      !args[index + 1].startsWith('--') &&
+      name !== 'watch'
+    ) {
+      flags[name] = args[index + 1];
+      index++;
+    } else {
+      flags[name] = true;
+    }
+  }
+
+  return { positionals, flags };
+}
@@ -1,5 +1,17 @@
 import { Response } from 'express';
 
+import { createFake } from './fake';
+import {
+  findFault,
+  sendFault,
+  getGraphQlErrorsResponse,
+  malformBody,
+} from './fault';
+import { isFile, sendFile } from './file';
+import { stableStringify } from './match';
+import { getDelay } from './network';
+import { isStream, sendStream } from './stream';
+import { renderTemplate, renderHeaders } from './template';
 import {
   ResponseProps,
   MockResponse,
@@ -7,6 +19,8 @@ import {
   ResponseFunction,
   Override,
   Context,
+  Delay,
+  MatchedMock,
 } from './types';
 
 export { createHandler };
@@ -18,28 +32,50 @@ function createHandler<TInput, TResponse>({
   responseDelay = 0,
   updateContext,
   getContext,
+  seed,
+  mock,
 }: ResponseProps<MockResponse<TInput, TResponse>> & {
   updateContext: UpdateContext;
   getContext: () => Context;
+  seed: string;
+  mock: MatchedMock;
 }) {
   return async (req: TInput, res: Response) => {
+    const fault = findFault(res, mock);
+    // Errors are sent after the mock's delay, like any other response
+    if (fault && fault.type !== 'error' && sendFault(res, fault)) {
+      return;
+    }
+
+    // The same request always gets the same fake data
+    const fake = createFake(`${seed} ${stableStringify(req)}`);
+    // Static responses can use placeholders such as "{{params.id}}"
+    const templateData = { ...req, context: getContext(), fake };
     const actualResponse =
-      typeof response === 'function'
+      fault && fault.type === 'error'
+        ? {
+            __override: {
+              response: fault.response,
+              responseCode: fault.responseCode || 500,
+            },
+          }
+        : typeof response === 'function'
         ? await ((response as unknown) as ResponseFunction<TInput, TResponse>)({
             ...req,
             updateContext,
             context: getContext(),
+            fake,
           })
-        : response;
+        : renderTemplate(response, templateData);
 
     let responseCollection: {
       response?: any;
-      responseDelay: number;
+      responseDelay: Delay;
       responseHeaders?: Record<string, string>;
       responseCode: number;
     } = {
       responseDelay,
-      responseHeaders,
+      responseHeaders: renderHeaders(responseHeaders, templateData),
       responseCode,
     };
     if (
@@ -56,7 +92,35 @@ function createHandler<TInput, TResponse>({
       responseCollection.response = actualResponse;
     }
 
-    await addDelay(responseCollection.responseDelay);
+    if (fault && fault.type === 'graphQlErrors') {
+      responseCollection.response = getGraphQlErrorsResponse(
+        fault,
+        responseCollection.response,
+      );
+    }
+
+    await addDelay(getDelay(responseCollection.responseDelay));
+
+    if (isStream(responseCollection.response)) {
+      await sendStream({
+        stream: responseCollection.response,
+        input: { ...req, updateContext, context: getContext(), fake },
+        res,
+        responseCode: responseCollection.responseCode,
+        responseHeaders: responseCollection.responseHeaders,
+      });
+      return;
+    }
+
+    if (isFile(responseCollection.response)) {
+      await sendFile({
+        file: responseCollection.response,
+        res,
+        responseCode: responseCollection.responseCode,
+        responseHeaders: responseCollection.responseHeaders,
+      });
+      return;
+    }
 
     if (
       responseCollection.response !== undefined &&
@@ -76,6 +140,19 @@ function createHandler<TInput, TResponse>({
       responseCollection.response = JSON.stringify(responseCollection.response);
     }
 
+    if (fault && fault.type === 'malformed') {
+      const body =
+        typeof responseCollection.response === 'string'
+          ? responseCollection.response
+          : JSON.stringify(responseCollection.response) || '{}';
+
+      responseCollection.responseHeaders = {
+        'Content-Type': 'application/json',
+        ...responseCollection.responseHeaders,
+      };
+      responseCollection.response = malformBody(body);
+    }
+
     res
       .set(responseCollection.responseHeaders)
       .status(responseCollection.responseCode)
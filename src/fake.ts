@@ -0,0 +1,164 @@
+import { Fake } from './types';
+
+export { createFake, createRandom };
+
+const firstNames = [
+  'Alice',
+  'Amir',
+  'Beatriz',
+  'Chen',
+  'Daniel',
+  'Elena',
+  'Fatima',
+  'George',
+  'Hana',
+  'Ivan',
+  'Jamal',
+  'Keiko',
+  'Liam',
+  'Maria',
+  'Noah',
+  'Olivia',
+  'Priya',
+  'Samuel',
+  'Sofia',
+  'Yusuf',
+];
+
+const lastNames = [
+  'Anderson',
+  'Brown',
+  'Costa',
+  'Davies',
+  'Evans',
+  'Fischer',
+  'Garcia',
+  'Hughes',
+  'Ito',
+  'Jones',
+  'Khan',
+  'Lopez',
+  'Martin',
+  'Nowak',
+  'Okafor',
+  'Patel',
+  'Rossi',
+  'Smith',
+  'Tanaka',
+  'Williams',
+];
+
+const domains = ['example.com', 'example.org', 'example.net'];
+
+const loremWords = 'lorem ipsum dolor sit amet consectetur adipiscing elit sed do eiusmod tempor incididunt ut labore et dolore magna aliqua enim ad minim veniam quis nostrud exercitation ullamco laboris nisi aliquip ex ea commodo consequat'.split(
+  ' ',
+);
+
+// The same seed always gives the same values in the same order, so responses
+// stay the same between runs
+function createFake(seed: string): Fake {
+  const random = createRandom(seed);
+
+  return {
+    number,
+    pick,
+    firstName,
+    lastName,
+    name,
+    email,
+    uuid,
+    date,
+    price,
+    lorem,
+    array,
+  };
+
+  function number({
+    min = 0,
+    max = 1000,
+  }: { min?: number; max?: number } = {}) {
+    return min + Math.floor(random() * (max - min + 1));
+  }
+
+  function pick<T>(items: T[]) {
+    return items[Math.floor(random() * items.length)];
+  }
+
+  function firstName() {
+    return pick(firstNames);
+  }
+
+  function lastName() {
+    return pick(lastNames);
+  }
+
+  function name() {
+    return `${firstName()} ${lastName()}`;
+  }
+
+  function email() {
+    return `${firstName()}.${lastName()}@${pick(domains)}`.toLowerCase();
+  }
+
+  // Version 4 format, but from the seeded numbers rather than crypto
+  function uuid() {
+    const hex = Array.from({ length: 32 }, () =>
+      Math.floor(random() * 16).toString(16),
+    );
+    hex[12] = '4';
+    hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+
+    return [
+      hex.slice(0, 8),
+      hex.slice(8, 12),
+      hex.slice(12, 16),
+      hex.slice(16, 20),
+      hex.slice(20),
+    ]
+      .map(part => part.join(''))
+      .join('-');
+  }
+
+  // Dates are taken from a fixed range rather than relative to now
+  function date({
+    from = '2020-01-01T00:00:00.000Z',
+    to = '2025-12-31T23:59:59.999Z',
+  }: { from?: string | Date; to?: string | Date } = {}) {
+    const start = new Date(from).getTime();
+    const end = new Date(to).getTime();
+
+    return new Date(start + Math.floor(random() * (end - start))).toISOString();
+  }
+
+  function price({ min = 1, max = 100 }: { min?: number; max?: number } = {}) {
+    return Math.round((min + random() * (max - min)) * 100) / 100;
+  }
+
+  function lorem(wordCount = 8) {
+    const text = Array.from({ length: wordCount }, () => pick(loremWords)).join(
+      ' ',
+    );
+
+    return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+  }
+
+  function array<T>(count: number, createItem: (index: number) => T) {
+    return Array.from({ length: count }, (_, index) => createItem(index));
+  }
+}
+
+// mulberry32, seeded with an FNV-1a hash of the seed
+function createRandom(seed: string) {
+  let state = Array.from(seed).reduce(
+    (hash, character) => Math.imul(hash ^ character.charCodeAt(0), 16777619),
+    2166136261,
+  );
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
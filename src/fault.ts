@@ -0,0 +1,157 @@
+import { Response } from 'express';
+
+import { createRandom } from './fake';
+import { Fault, MatchedMock } from './types';
+
+export {
+  createFaults,
+  setFaults,
+  findFault,
+  sendFault,
+  sendJson,
+  getGraphQlErrorsResponse,
+  malformBody,
+  Faults,
+};
+
+type Faults = ReturnType<typeof createFaults>;
+
+function createFaults({
+  faults,
+  seed,
+}: {
+  faults: Record<string, Fault>;
+  seed: string | number;
+}) {
+  let enabledFaults: string[] = [];
+  let randoms: Record<string, () => number> = {};
+
+  setEnabledFaults(
+    Object.keys(faults).filter(name => faults[name].enabled === true),
+  );
+
+  return {
+    getFaults,
+    getEnabledFaults,
+    setEnabledFaults,
+    findFault: findEnabledFault,
+  };
+
+  function getFaults() {
+    return faults;
+  }
+
+  function getEnabledFaults() {
+    return enabledFaults;
+  }
+
+  // Each fault starts again from the seed, so the same requests fail every
+  // time it is enabled
+  function setEnabledFaults(names: string[]) {
+    enabledFaults = names;
+    randoms = names.reduce<Record<string, () => number>>((result, name) => {
+      result[name] = createRandom(`${seed} ${name}`);
+      return result;
+    }, {});
+  }
+
+  function findEnabledFault(
+    mock: MatchedMock,
+    path: string,
+    types?: Array<Fault['type']>,
+  ) {
+    const name = enabledFaults.find(enabledFault => {
+      const { rate = 100, ...fault } = faults[enabledFault];
+
+      return (
+        (types === undefined || types.includes(fault.type)) &&
+        matchesFault(fault, mock, path) &&
+        (rate >= 100 || randoms[enabledFault]() * 100 < rate)
+      );
+    });
+
+    return name === undefined ? undefined : faults[name];
+  }
+}
+
+// String URLs match either the request's path or the mock's url, e.g.
+// "/users/:id"
+function matchesFault(
+  { type, url, operationType, operationName }: Fault,
+  mock: MatchedMock,
+  path: string,
+) {
+  return (
+    (url === undefined ||
+      (url instanceof RegExp
+        ? url.test(path)
+        : url === path || url === mock.url)) &&
+    (operationType === undefined || operationType === mock.operationType) &&
+    (operationName === undefined || operationName === mock.operationName) &&
+    (type !== 'graphQlErrors' || mock.method === 'GRAPHQL')
+  );
+}
+
+function setFaults(res: Response, faults: Faults) {
+  res.locals.faults = faults;
+}
+
+function findFault(
+  res: Response,
+  mock: MatchedMock,
+  types?: Array<Fault['type']>,
+): Fault | undefined {
+  const faults: Faults | undefined = res.locals.faults;
+
+  return faults && faults.findFault(mock, res.req ? res.req.path : '', types);
+}
+
+// Sends faults that replace the response altogether, returning false for
+// faults that change the response instead
+function sendFault(res: Response, { type, response, responseCode }: Fault) {
+  switch (type) {
+    case 'reset':
+      res.connection.destroy();
+      return true;
+    // The request is left open until the client gives up
+    case 'hang':
+      return true;
+    case 'error':
+      res.status(responseCode || 500);
+      if (response === undefined) {
+        res.end();
+      } else {
+        res.json(response);
+      }
+      return true;
+    default:
+      return false;
+  }
+}
+
+function sendJson(res: Response, body: any, fault?: Fault) {
+  const response =
+    fault && fault.type === 'graphQlErrors'
+      ? getGraphQlErrorsResponse(fault, body)
+      : body;
+
+  if (fault && fault.type === 'malformed') {
+    res.type('json').send(malformBody(JSON.stringify(response)));
+    return;
+  }
+
+  res.json(response);
+}
+
+// Keeps the response's data unless the fault replaces it
+function getGraphQlErrorsResponse({ data, errors }: Fault, response: any) {
+  return {
+    data: data !== undefined ? data : (response && response.data) || null,
+    errors: errors || [{ message: 'Injected fault' }],
+  };
+}
+
+// The body is cut off half way through, so it cannot be parsed
+function malformBody(body: string) {
+  return body.slice(0, Math.ceil(body.length / 2));
+}
@@ -0,0 +1,125 @@
+import { Response } from 'express';
+import path from 'path';
+import { Readable } from 'stream';
+
+import { FileResponse } from './types';
+
+export { isFile, sendFile };
+
+function isFile(response: any): response is FileResponse {
+  return (
+    response !== null &&
+    typeof response === 'object' &&
+    !!response.__file &&
+    Object.keys(response).length === 1
+  );
+}
+
+async function sendFile({
+  file: {
+    __file: { path: filePath, content, contentType, download },
+  },
+  res,
+  responseCode,
+  responseHeaders = {},
+}: {
+  file: FileResponse;
+  res: Response;
+  responseCode: number;
+  responseHeaders?: Record<string, string>;
+}) {
+  res.status(responseCode).set(responseHeaders);
+
+  if (download) {
+    // Also sets Content-Type from the file name's extension
+    res.attachment(
+      typeof download === 'string'
+        ? download
+        : filePath && path.basename(filePath),
+    );
+  }
+
+  if (contentType) {
+    res.type(contentType);
+  }
+
+  if (filePath !== undefined) {
+    await sendFromDisk(filePath, res);
+    return;
+  }
+
+  if (!res.get('Content-Type')) {
+    res.type('application/octet-stream');
+  }
+
+  if (Buffer.isBuffer(content)) {
+    sendBuffer(content, res);
+    return;
+  }
+
+  if (content) {
+    await sendStream(content(), res);
+  }
+}
+
+// The file is read on every request, so changes show up straight away
+function sendFromDisk(filePath: string, res: Response) {
+  return new Promise(resolve => {
+    res.sendFile(
+      path.resolve(filePath),
+      { acceptRanges: true },
+      (error: Error & { status?: number }) => {
+        if (error && !res.headersSent) {
+          res
+            .status(error.status || 500)
+            .json({ message: `Could not send file "${filePath}"` });
+        }
+
+        resolve();
+      },
+    );
+  });
+}
+
+// A new stream is created for every request
+function sendStream(stream: Readable, res: Response) {
+  return new Promise(resolve => {
+    stream
+      .on('error', () => {
+        if (res.headersSent) {
+          res.connection.destroy();
+        } else {
+          res.status(500).json({ message: 'Could not send file content' });
+        }
+
+        resolve();
+      })
+      .pipe(res)
+      .on('finish', resolve);
+  });
+}
+
+function sendBuffer(buffer: Buffer, res: Response) {
+  res.set('Accept-Ranges', 'bytes');
+
+  const ranges = res.req && res.req.range(buffer.length);
+  if (ranges === -1) {
+    res
+      .status(416)
+      .set('Content-Range', `bytes */${buffer.length}`)
+      .end();
+    return;
+  }
+
+  // Only single ranges are supported, as with files on disk
+  if (Array.isArray(ranges) && ranges.length === 1) {
+    const [{ start, end }] = ranges;
+    res
+      .status(206)
+      .set('Content-Range', `bytes ${start}-${end}/${buffer.length}`)
+      .send(buffer.slice(start, end + 1));
+    return;
+  }
+
+  res.send(buffer);
+}
@@ -0,0 +1,171 @@
+import { Response } from 'express';
+import {
+  buildSchema,
+  execute,
+  parse,
+  validate,
+  GraphQLFieldResolver,
+  GraphQLOutputType,
+  isEnumType,
+  isInterfaceType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isScalarType,
+  isUnionType,
+} from 'graphql';
+
+import { sendJson } from './fault';
+import { Context, Fault, GraphQlResolvers, UpdateContext } from './types';
+
+export { createSchemaHandler };
+
+const LIST_LENGTH = 2;
+
+function createSchemaHandler({
+  schema: typeDefs,
+  resolvers,
+  getContext,
+  updateContext,
+}: {
+  schema: string;
+  resolvers: GraphQlResolvers;
+  getContext: () => Context;
+  updateContext: UpdateContext;
+}) {
+  const schema = buildSchema(typeDefs);
+
+  const fieldResolver: GraphQLFieldResolver<any, any> = (
+    parent,
+    args,
+    _,
+    { fieldName, parentType, returnType },
+  ) => {
+    const typeResolvers = resolvers[parentType.name];
+    if (
+      typeResolvers &&
+      typeof typeResolvers === 'object' &&
+      typeResolvers[fieldName]
+    ) {
+      return typeResolvers[fieldName]({
+        parent,
+        args,
+        context: getContext(),
+        updateContext,
+      });
+    }
+
+    if (parent && Object.prototype.hasOwnProperty.call(parent, fieldName)) {
+      return parent[fieldName];
+    }
+
+    return getMockValue(returnType);
+  };
+
+  return (
+    {
+      query,
+      operationName,
+      variables,
+    }: {
+      query: string;
+      operationName: string;
+      variables: Record<string, any>;
+    },
+    res: Response,
+    fault?: Fault,
+  ) => {
+    const document = parse(query);
+    const errors = validate(schema, document);
+
+    if (errors.length > 0) {
+      res.status(400).json({ errors });
+      return;
+    }
+
+    const result = execute({
+      schema,
+      document,
+      rootValue: {},
+      variableValues: variables,
+      operationName: operationName || undefined,
+      fieldResolver,
+    });
+
+    Promise.resolve(result).then(
+      executionResult => {
+        sendJson(res, executionResult, fault);
+      },
+      error => {
+        res.status(500).json({ errors: [{ message: error.message }] });
+      },
+    );
+  };
+
+  function getMockValue(type: GraphQLOutputType): any {
+    if (isNonNullType(type)) {
+      return getMockValue(type.ofType);
+    }
+
+    if (isListType(type)) {
+      return Array.from({ length: LIST_LENGTH }, () =>
+        getMockValue(type.ofType),
+      );
+    }
+
+    const typeResolver = resolvers[type.name];
+    const resolvedValue =
+      typeof typeResolver === 'function'
+        ? typeResolver({ context: getContext(), updateContext })
+        : undefined;
+
+    if (isInterfaceType(type) || isUnionType(type)) {
+      // The first possible type is used, unless one has been resolved
+      if (resolvedValue && resolvedValue.__typename) {
+        return resolvedValue;
+      }
+
+      const [possibleType] = schema.getPossibleTypes(type);
+
+      return {
+        ...getMockValue(possibleType),
+        ...resolvedValue,
+        __typename: possibleType.name,
+      };
+    }
+
+    if (isObjectType(type)) {
+      // Fields that are not resolved here are mocked when they are executed
+      return resolvedValue || {};
+    }
+
+    if (resolvedValue !== undefined) {
+      return resolvedValue;
+    }
+
+    if (isEnumType(type)) {
+      return type.getValues()[0].value;
+    }
+
+    if (isScalarType(type)) {
+      return getMockScalar(type.name);
+    }
+
+    return null;
+  }
+}
+
+function getMockScalar(name: string) {
+  switch (name) {
+    case 'Int':
+      return 42;
+    case 'Float':
+      return 4.2;
+    case 'Boolean':
+      return true;
+    case 'ID':
+      return '00000000-0000-0000-0000-000000000000';
+    default:
+      return 'Hello World';
+  }
+}
@@ -0,0 +1,221 @@
+import WebSocket from 'ws';
+
+import { getGraphQlRequest } from './graph-ql';
+import {
+  Context,
+  GraphQlMock,
+  GraphQlResponse,
+  SubscriptionOperation,
+  UpdateContext,
+} from './types';
+import { WebSocketRoute } from './web-socket';
+
+export { getSubscriptionRoutes };
+
+// graphql-ws, anything else is treated as subscriptions-transport-ws
+const GRAPHQL_TRANSPORT_WS_PROTOCOL = 'graphql-transport-ws';
+
+function getSubscriptionRoutes({
+  graphQlMocks,
+  getContext,
+  updateContext,
+}: {
+  graphQlMocks: GraphQlMock[];
+  getContext: () => Context;
+  updateContext: UpdateContext;
+}): WebSocketRoute[] {
+  return graphQlMocks.reduce<WebSocketRoute[]>(
+    (result, { url, operations = [] }) => {
+      const subscriptions = operations.filter(
+        ({ type }) => type === 'subscription',
+      ) as SubscriptionOperation[];
+
+      if (subscriptions.length > 0) {
+        result.push({
+          url,
+          handleConnection: socket =>
+            handleConnection({
+              socket,
+              subscriptions,
+              getContext,
+              updateContext,
+            }),
+        });
+      }
+
+      return result;
+    },
+    [],
+  );
+}
+
+function handleConnection({
+  socket,
+  subscriptions,
+  getContext,
+  updateContext,
+}: {
+  socket: WebSocket;
+  subscriptions: SubscriptionOperation[];
+  getContext: () => Context;
+  updateContext: UpdateContext;
+}) {
+  const isLegacyProtocol = socket.protocol !== GRAPHQL_TRANSPORT_WS_PROTOCOL;
+  const stopFunctions: Record<string, () => void> = {};
+
+  socket.on('message', data => {
+    let message: { id?: string; type?: string; payload?: any };
+    try {
+      message = JSON.parse(String(data));
+    } catch (error) {
+      socket.close(4400, 'Invalid message received');
+      return;
+    }
+
+    const { id = '', type, payload } = message;
+    switch (type) {
+      case 'connection_init':
+        send({ type: 'connection_ack' });
+        break;
+      case 'ping':
+        send({ type: 'pong', payload });
+        break;
+      case 'subscribe':
+      case 'start':
+        startSubscription(id, payload);
+        break;
+      case 'complete':
+      case 'stop':
+        stopSubscription(id);
+        break;
+      case 'connection_terminate':
+        socket.close();
+        break;
+    }
+  });
+
+  socket.on('close', () => {
+    Object.keys(stopFunctions).forEach(stopSubscription);
+  });
+
+  function startSubscription(id: string, payload: any) {
+    const graphQlRequest = getGraphQlRequest({
+      headers: {},
+      body: payload,
+      query: {},
+    });
+
+    if ('message' in graphQlRequest) {
+      sendError(id, graphQlRequest.message);
+      return;
+    }
+
+    const { operationType, operationName, variables } = graphQlRequest;
+    const subscription = subscriptions.find(
+      ({ name }) => operationType === 'subscription' && name === operationName,
+    );
+
+    if (!subscription) {
+      sendError(
+        id,
+        `${operationType} "${operationName}" has not been mocked for subscriptions`,
+      );
+      return;
+    }
+
+    let completed = false;
+    let cleanUp: void | (() => void);
+    stopFunctions[id] = () => {
+      completed = true;
+      delete stopFunctions[id];
+      if (cleanUp) {
+        cleanUp();
+      }
+    };
+
+    const push = (response: GraphQlResponse) => {
+      if (!completed) {
+        send({
+          id,
+          type: isLegacyProtocol ? 'data' : 'next',
+          payload: response,
+        });
+      }
+    };
+    const complete = () => {
+      if (!completed) {
+        stopFunctions[id]();
+        send({ id, type: 'complete' });
+      }
+    };
+
+    const { response } = subscription;
+    if (typeof response === 'function') {
+      // Errors thrown by the function end the subscription rather than the
+      // server
+      new Promise<void | (() => void)>(resolve =>
+        resolve(
+          response({
+            variables,
+            context: getContext(),
+            updateContext,
+            push,
+            complete,
+          }),
+        ),
+      ).then(
+        result => {
+          if (completed) {
+            if (result) {
+              result();
+            }
+          } else {
+            cleanUp = result;
+          }
+        },
+        error => {
+          if (!completed) {
+            stopFunctions[id]();
+            sendError(
+              id,
+              error instanceof Error ? error.message : String(error),
+            );
+          }
+        },
+      );
+
+      return;
+    }
+
+    const timeouts: NodeJS.Timeout[] = [];
+    cleanUp = () => timeouts.forEach(clearTimeout);
+
+    // Events are sent one after another, each waiting for its own delay
+    let totalDelay = 0;
+    response.forEach(({ response: eventResponse, delay = 0 }) => {
+      totalDelay += delay;
+      timeouts.push(setTimeout(() => push(eventResponse), totalDelay));
+    });
+    timeouts.push(setTimeout(complete, totalDelay));
+  }
+
+  function stopSubscription(id: string) {
+    if (stopFunctions[id]) {
+      stopFunctions[id]();
+    }
+  }
+
+  function sendError(id: string, message: string) {
+    send({
+      id,
+      type: 'error',
+      payload: isLegacyProtocol ? { message } : [{ message }],
+    });
+  }
+
+  function send(message: Record<string, any>) {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+}
@@ -1,19 +1,40 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import { IncomingHttpHeaders } from 'http';
 import gql from 'graphql-tag';
 
-import { createHandler } from './create-handler';
-import { GraphQlMock, Operation, Mock, UpdateContext, Context } from './types';
+import { findFault, sendFault } from './fault';
+import { createSchemaHandler } from './graph-ql-schema';
+import { setMatchedMock } from './journal';
+import { getMatchKey, matchesOperation, sortBySpecificity } from './match';
+import { createMockHandler, Sequences } from './sequence';
+import {
+  GraphQlMock,
+  GraphQlResolvers,
+  MatchedMock,
+  Operation,
+  OperationInput,
+  QueryOperation,
+  Mock,
+  UpdateContext,
+  Context,
+} from './types';
 
-export { getGraphQlMocks, applyGraphQlRoutes };
+export {
+  getGraphQlMocks,
+  applyGraphQlRoutes,
+  getGraphQlRequest,
+  isGraphQlRequest,
+  GraphQlRequest,
+};
 
-type GraphQlHandler = (
-  req: {
-    operationType: 'query' | 'mutation';
-    operationName: string;
-    variables: Record<string, any>;
-  },
-  res: Response,
-) => boolean;
+type GraphQlRequest = {
+  query: string;
+  operationType: 'query' | 'mutation' | 'subscription';
+  operationName: string;
+  variables: Record<string, any>;
+};
+
+type GraphQlHandler = (req: GraphQlRequest, res: Response) => boolean;
 
 function getGraphQlMocks(mocks: Mock[]) {
   const initialGraphQlMocks = mocks.filter(
@@ -21,28 +42,46 @@ function getGraphQlMocks(mocks: Mock[]) {
   ) as GraphQlMock[];
 
   const graphQlMocksByUrlAndOperations = initialGraphQlMocks.reduce<
-    Record<string, Record<string, Operation>>
+    Record<
+      string,
+      {
+        operationsByNameAndType: Record<string, Operation>;
+        schema?: string;
+        resolvers: GraphQlResolvers;
+      }
+    >
   >((result, mock) => {
-    const { url, operations } = mock;
+    const { url, operations = [], schema, resolvers } = mock;
 
-    const operationsByNameAndType: Record<string, Operation> = result[url]
+    const graphQlMock = result[url]
       ? result[url]
-      : {};
+      : { operationsByNameAndType: {}, resolvers: {} };
 
     operations.forEach(operation => {
       // Always take the latest operation
-      operationsByNameAndType[`${operation.name}${operation.type}`] = operation;
+      graphQlMock.operationsByNameAndType[
+        `${operation.name}${operation.type}${getMatchKey(
+          isQueryOperation(operation) ? operation.match : undefined,
+        )}`
+      ] = operation;
     });
 
-    result[url] = operationsByNameAndType;
+    // Always take the latest schema and resolvers
+    if (schema) {
+      graphQlMock.schema = schema;
+    }
+    graphQlMock.resolvers = { ...graphQlMock.resolvers, ...resolvers };
+
+    result[url] = graphQlMock;
     return result;
   }, {});
 
   return Object.entries(graphQlMocksByUrlAndOperations).map(
-    ([url, operationsByName]) => ({
+    ([url, { operationsByNameAndType, schema, resolvers }]) => ({
       method: 'GRAPHQL',
       url,
-      operations: Object.values(operationsByName),
+      operations: Object.values(operationsByNameAndType),
+      ...(schema && { schema, resolvers }),
     }),
   ) as GraphQlMock[];
 }
@@ -50,53 +89,95 @@ function getGraphQlMocks(mocks: Mock[]) {
 function applyGraphQlRoutes({
   router,
   graphQlMocks,
+  sequences,
   getContext,
   updateContext,
+  seed,
 }: {
   router: Router;
   graphQlMocks: GraphQlMock[];
+  sequences: Sequences;
   getContext: () => Context;
   updateContext: UpdateContext;
+  seed: string;
 }) {
-  graphQlMocks.forEach(({ url, operations }) => {
-    const queries = operations
+  graphQlMocks.forEach(({ url, operations = [], schema, resolvers = {} }) => {
+    const queryOperations = sortBySpecificity(
+      operations.filter(isQueryOperation),
+    );
+
+    const queries = queryOperations
       .filter(({ type }) => type === 'query')
       .map(operation =>
-        createGraphQlHandler({ ...operation, updateContext, getContext }),
+        createGraphQlHandler({
+          ...operation,
+          url,
+          sequences,
+          updateContext,
+          getContext,
+          seed,
+        }),
       );
 
-    const mutations = operations
+    const mutations = queryOperations
       .filter(({ type }) => type === 'mutation')
       .map(operation =>
-        createGraphQlHandler({ ...operation, updateContext, getContext }),
+        createGraphQlHandler({
+          ...operation,
+          url,
+          sequences,
+          updateContext,
+          getContext,
+          seed,
+        }),
       );
 
-    router.get(url, createGraphQlRequestHandler(queries));
-    router.post(url, createGraphQlRequestHandler(queries.concat(mutations)));
+    const schemaHandler = schema
+      ? createSchemaHandler({ schema, resolvers, getContext, updateContext })
+      : undefined;
+
+    router.get(url, createGraphQlRequestHandler(url, queries, schemaHandler));
+    router.post(
+      url,
+      createGraphQlRequestHandler(
+        url,
+        queries.concat(mutations),
+        schemaHandler,
+      ),
+    );
   });
 }
 
 function createGraphQlHandler({
   name: operationNameToCheck,
   type: operationTypeToCheck,
+  match,
+  url,
   ...rest
-}: Operation & {
+}: QueryOperation & {
+  url: string;
+  sequences: Sequences;
   updateContext: UpdateContext;
   getContext: () => Context;
+  seed: string;
 }): GraphQlHandler {
-  const handler = createHandler(rest);
+  const mock: MatchedMock = {
+    url,
+    method: 'GRAPHQL',
+    operationType: operationTypeToCheck,
+    operationName: operationNameToCheck,
+    ...(match && { match }),
+  };
+  const handler = createMockHandler<OperationInput, any>({ ...rest, mock });
 
   return ({ operationType, operationName, variables }, res) => {
     if (
       operationType === operationTypeToCheck &&
-      operationName === operationNameToCheck
+      operationName === operationNameToCheck &&
+      matchesOperation(match, { variables }) &&
+      handler({ variables }, res)
     ) {
-      handler(
-        {
-          variables,
-        },
-        res,
-      );
+      setMatchedMock(res, mock);
 
       return true;
     }
@@ -105,87 +186,157 @@ function createGraphQlHandler({
   };
 }
 
-function createGraphQlRequestHandler(handlers: GraphQlHandler[]) {
+function isQueryOperation(operation: Operation): operation is QueryOperation {
+  return operation.type === 'query' || operation.type === 'mutation';
+}
+
+function createGraphQlRequestHandler(
+  url: string,
+  handlers: GraphQlHandler[],
+  schemaHandler?: ReturnType<typeof createSchemaHandler>,
+) {
   return (req: Request, res: Response, next: NextFunction) => {
-    const query =
-      req.headers['content-type'] === 'application/graphql'
-        ? req.body
-        : req.body.query || req.query.query || '';
+    const graphQlRequest = getGraphQlRequest(req);
 
-    let graphqlAst;
-    try {
-      graphqlAst = gql(query);
-    } catch (error) {
-      res.status(400).json({
-        message: `query "${query}" is not a valid GraphQL query`,
-      });
+    if ('message' in graphQlRequest) {
+      res.status(400).json(graphQlRequest);
       return;
     }
 
-    const operationTypesAndNames = (graphqlAst.definitions as Array<{
-      kind: string;
-      operation: 'query' | 'mutation';
-      name?: { value: string };
-    }>)
-      .filter(({ kind }) => kind === 'OperationDefinition')
-      .map(({ operation, name }) => ({
-        type: operation,
-        name: name && name.value,
-      }));
+    for (const handler of handlers) {
+      const responseHandled = handler(graphQlRequest, res);
+
+      if (responseHandled) {
+        return;
+      }
+    }
 
+    // Mutations are never executed for GET requests and subscriptions are
+    // only available over WebSocket
     if (
-      operationTypesAndNames.length > 1 &&
-      !req.body.operationName &&
-      !req.query.operationName
+      schemaHandler &&
+      (graphQlRequest.operationType === 'query' ||
+        (req.method !== 'GET' && graphQlRequest.operationType === 'mutation'))
     ) {
-      res.status(400).json({
-        message: `query "${query}" is not a valid GraphQL query`,
-      });
+      const mock: MatchedMock = {
+        url,
+        method: 'GRAPHQL',
+        operationType: graphQlRequest.operationType,
+        operationName: graphQlRequest.operationName,
+      };
+      setMatchedMock(res, mock);
+
+      const fault = findFault(res, mock);
+      if (!fault || !sendFault(res, fault)) {
+        schemaHandler(graphQlRequest, res, fault);
+      }
       return;
     }
 
-    const operationName: string =
-      req.body.operationName ||
-      req.query.operationName ||
-      operationTypesAndNames[0].name ||
-      '';
+    next();
+  };
+}
+
+function getGraphQlRequest({
+  headers,
+  body,
+  query: queryParams,
+}: {
+  headers: IncomingHttpHeaders;
+  body: any;
+  query: Record<string, any>;
+}): GraphQlRequest | { message: string } {
+  const query =
+    headers['content-type'] === 'application/graphql'
+      ? body
+      : (body && body.query) || queryParams.query || '';
 
-    const operationTypeAndName = operationTypesAndNames.find(
-      ({ name }) => name === operationName,
-    );
+  let graphqlAst;
+  try {
+    graphqlAst = gql(query);
+  } catch (error) {
+    return {
+      message: `query "${query}" is not a valid GraphQL query`,
+    };
+  }
 
-    if (!operationTypeAndName) {
-      res.status(400).json({
-        message: `operation name "${operationName}" does not exist in GraphQL query`,
-      });
-      return;
-    }
+  const operationTypesAndNames = (graphqlAst.definitions as Array<{
+    kind: string;
+    operation: 'query' | 'mutation' | 'subscription';
+    name?: { value: string };
+  }>)
+    .filter(({ kind }) => kind === 'OperationDefinition')
+    .map(({ operation, name }) => ({
+      type: operation,
+      name: name && name.value,
+    }));
 
-    const operationType = operationTypeAndName.type;
+  const bodyOperationName = body && body.operationName;
 
-    let variables = req.body.variables;
-    if (variables === undefined && req.query.variables) {
-      try {
-        variables = JSON.parse(req.query.variables);
-      } catch (error) {}
-    }
-    variables = variables || {};
+  if (
+    operationTypesAndNames.length > 1 &&
+    !bodyOperationName &&
+    !queryParams.operationName
+  ) {
+    return {
+      message: `query "${query}" is not a valid GraphQL query`,
+    };
+  }
 
-    for (const handler of handlers) {
-      const responseHandled = handler(
-        {
-          operationType,
-          operationName,
-          variables,
-        },
-        res,
-      );
+  const operationName: string =
+    bodyOperationName ||
+    queryParams.operationName ||
+    operationTypesAndNames[0].name ||
+    '';
 
-      if (responseHandled) {
-        return;
-      }
-    }
+  const operationTypeAndName = operationTypesAndNames.find(
+    ({ name }) => name === operationName,
+  );
 
-    next();
+  if (!operationTypeAndName) {
+    return {
+      message: `operation name "${operationName}" does not exist in GraphQL query`,
+    };
+  }
+
+  const operationType = operationTypeAndName.type;
+
+  let variables = body && body.variables;
+  if (variables === undefined && queryParams.variables) {
+    try {
+      variables = JSON.parse(queryParams.variables);
+    } catch (error) {}
+  }
+  variables = variables || {};
+
+  return {
+    query,
+    operationType,
+    operationName,
+    variables,
   };
 }
+
+function isGraphQlRequest({
+  method,
+  headers,
+  body,
+  query,
+}: {
+  method: string;
+  headers: IncomingHttpHeaders;
+  body: any;
+  query: Record<string, any>;
+}) {
+  if (method !== 'GET' && method !== 'POST') {
+    return false;
+  }
+
+  return (
+    headers['content-type'] === 'application/graphql' ||
+    (body !== null &&
+      typeof body === 'object' &&
+      typeof body.query === 'string') ||
+    typeof query.query === 'string'
+  );
+}
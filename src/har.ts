@@ -0,0 +1,184 @@
+import { IncomingHttpHeaders } from 'http';
+import querystring from 'querystring';
+
+import { getGraphQlMocks } from './graph-ql';
+import { getHttpMocks } from './http';
+import { getMatchKey } from './match';
+import { getMockFromExchange, isTextContentType } from './record';
+import {
+  HarDocument,
+  HarHeader,
+  HarOptions,
+  GraphQlMock,
+  HttpMock,
+  Mock,
+  QueryOperation,
+  Scenarios,
+} from './types';
+
+export { getHarMocks };
+
+type HarEntry = HarDocument['log']['entries'][number];
+
+function getHarMocks(
+  har: HarDocument,
+  { scenario, duplicates = 'last', ignoreHeaders = [] }: HarOptions = {},
+) {
+  const mocksByKey = har.log.entries.reduce<Record<string, Mock[]>>(
+    (result, entry) => {
+      const mock = getMockFromExchange(getExchange(entry), ignoreHeaders);
+      if (!mock) {
+        return result;
+      }
+
+      const key = getKey(mock);
+      result[key] = (result[key] || []).concat(mock);
+      return result;
+    },
+    {},
+  );
+
+  const mocks = Object.values(mocksByKey).map(repeatedMocks => {
+    if (duplicates === 'first') {
+      return repeatedMocks[0];
+    }
+
+    if (duplicates === 'sequence' && repeatedMocks.length > 1) {
+      return getSequenceMock(repeatedMocks);
+    }
+
+    return repeatedMocks[repeatedMocks.length - 1];
+  });
+
+  // Operations on the same URL are combined into one GraphQL mock
+  const mergedMocks = [...getHttpMocks(mocks), ...getGraphQlMocks(mocks)];
+
+  return {
+    default: scenario ? [] : mergedMocks,
+    scenarios: (scenario ? { [scenario]: mergedMocks } : {}) as Scenarios,
+  };
+}
+
+function getExchange({ request, response }: HarEntry) {
+  const { pathname, searchParams } = new URL(request.url);
+  const { text = '', encoding, mimeType = '' } = response.content;
+
+  return {
+    method: request.method,
+    path: pathname,
+    query: querystring.parse(searchParams.toString()),
+    requestHeaders: getHeaders(request.headers),
+    requestBody: getRequestBody(request.postData),
+    responseCode: response.status,
+    responseHeaders: getHeaders(response.headers),
+    responseBody: encoding === 'base64' ? decodeBase64(text, mimeType) : text,
+  };
+}
+
+// Binary content, e.g. images and PDFs, is kept as a Buffer so it is not
+// corrupted
+function decodeBase64(text: string, mimeType: string) {
+  const buffer = Buffer.from(text, 'base64');
+
+  return isTextContentType(mimeType) ? buffer.toString() : buffer;
+}
+
+function getHeaders(headers: HarHeader[]) {
+  return headers.reduce<IncomingHttpHeaders>((result, { name, value }) => {
+    const lowerCaseName = name.toLowerCase();
+
+    // HTTP/2 pseudo headers, e.g. ":authority"
+    if (lowerCaseName.startsWith(':')) {
+      return result;
+    }
+
+    const existingValue = result[lowerCaseName];
+    result[lowerCaseName] =
+      existingValue === undefined ? value : `${existingValue}, ${value}`;
+    return result;
+  }, {});
+}
+
+function getRequestBody(postData: HarEntry['request']['postData']) {
+  if (!postData || postData.text === undefined) {
+    return {};
+  }
+
+  const { mimeType, text } = postData;
+  if (mimeType.startsWith('application/json')) {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      return text;
+    }
+  }
+
+  if (mimeType.startsWith('application/x-www-form-urlencoded')) {
+    return querystring.parse(text);
+  }
+
+  return text;
+}
+
+function getKey(mock: Mock) {
+  if (mock.method === 'GRAPHQL') {
+    const [{ type, name }] = mock.operations || [];
+    return `${mock.url} ${type} ${name}`;
+  }
+
+  // Requests with a different query are different requests, not repeats
+  return `${mock.method} ${mock.url} ${getMatchKey((mock as HttpMock).match)}`;
+}
+
+// Repeated calls are answered in the order they were recorded
+function getSequenceMock(mocks: Mock[]): Mock {
+  const [firstMock] = mocks;
+
+  if (firstMock.method === 'GRAPHQL') {
+    // Each recorded GraphQL mock has a single query or mutation
+    const operations = (mocks as GraphQlMock[]).map(
+      ({ operations: [operation] = [] }) => operation as QueryOperation,
+    );
+    const [{ type, name }] = operations;
+
+    return {
+      ...firstMock,
+      operations: [
+        {
+          type,
+          name,
+          response: {
+            __sequence: {
+              responses: operations.map(getResponseProps),
+            },
+          },
+        },
+      ],
+    };
+  }
+
+  const { url, method, match } = firstMock as HttpMock;
+
+  return {
+    url,
+    method,
+    ...(match && { match }),
+    response: {
+      __sequence: {
+        responses: (mocks as HttpMock[]).map(getResponseProps),
+      },
+    },
+  };
+}
+
+function getResponseProps({
+  response,
+  responseCode,
+  responseHeaders,
+}: HttpMock | QueryOperation) {
+  return {
+    response,
+    ...(responseCode !== undefined && { responseCode }),
+    ...(responseHeaders !== undefined && { responseHeaders }),
+  };
+}
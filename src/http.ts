@@ -1,21 +1,36 @@
 import { Router, RequestHandler } from 'express';
 
-import { createHandler } from './create-handler';
-import { Mock, HttpMock, Context, UpdateContext } from './types';
+import { setMatchedMock } from './journal';
+import { getMatchKey, sortBySpecificity, matchesHttpRequest } from './match';
+import { createMockHandler, Sequences } from './sequence';
+import {
+  Mock,
+  HttpMock,
+  HttpMethod,
+  HttpInput,
+  MatchedMock,
+  Context,
+  UpdateContext,
+} from './types';
 
 export { getHttpMocks, applyHttpRoutes };
 
 function getHttpMocks(mocks: Mock[]) {
   const initialHttpMocks = mocks.filter(
-    ({ method }) => method !== 'GRAPHQL',
+    ({ method }) => method !== 'GRAPHQL' && method !== 'WEBSOCKET',
   ) as HttpMock[];
 
   const httpMocksByUrlAndMethod = initialHttpMocks.reduce<
     Record<string, HttpMock>
   >((result, mock) => {
-    const { url, method } = mock;
+    const { url, match } = mock;
+    // '*' is another name for 'ALL', so they replace each other
+    const method = mock.method === '*' ? 'ALL' : mock.method;
     // Always take the latest mock
-    result[`${String(url)}${method}`] = mock;
+    result[`${String(url)}${method}${getMatchKey(match)}`] = {
+      ...mock,
+      method,
+    };
 
     return result;
   }, {});
@@ -26,22 +41,88 @@ function getHttpMocks(mocks: Mock[]) {
 function applyHttpRoutes({
   router,
   httpMocks,
+  sequences,
   getContext,
   updateContext,
+  seed,
 }: {
   router: Router;
   httpMocks: HttpMock[];
+  sequences: Sequences;
   getContext: () => Context;
   updateContext: UpdateContext;
+  seed: string;
 }) {
-  httpMocks.forEach(({ method, url, ...rest }) => {
-    const handler = createHandler({
-      ...rest,
-      updateContext,
-      getContext,
+  const httpMocksByUrlAndMethod = httpMocks.reduce<
+    Record<
+      string,
+      { url: string | RegExp; method: HttpMethod; mocks: HttpMock[] }
+    >
+  >((result, mock) => {
+    const key = `${String(mock.url)}${mock.method}`;
+    if (!result[key]) {
+      result[key] = { url: mock.url, method: mock.method, mocks: [] };
+    }
+
+    result[key].mocks.push(mock);
+    return result;
+  }, {});
+
+  // HEAD must come before GET, which also handles HEAD requests, and ALL must
+  // come last so that it does not hide the other methods
+  const routes = Object.values(httpMocksByUrlAndMethod).sort(
+    (a, b) => getRouteOrder(a.method) - getRouteOrder(b.method),
+  );
+
+  routes.forEach(({ url, method, mocks }) => {
+    const handlers = sortBySpecificity(mocks).map(({ match, ...rest }) => {
+      const mock: MatchedMock = {
+        url: String(url),
+        method,
+        ...(match && { match }),
+      };
+
+      return {
+        match,
+        mock,
+        handler: createMockHandler<HttpInput, any>({
+          ...rest,
+          mock,
+          sequences,
+          updateContext,
+          getContext,
+          seed,
+        }),
+      };
     });
-    const requestHandler: RequestHandler = ({ body, query, params }, res) =>
-      handler({ body, query, params }, res);
+
+    const requestHandler: RequestHandler = (
+      { method: requestMethod, body, query, params, headers },
+      res,
+      next,
+    ) => {
+      // CORS preflight requests are only answered by OPTIONS mocks
+      if (method === 'ALL' && requestMethod === 'OPTIONS') {
+        next();
+        return;
+      }
+
+      const matchingHandler = handlers.find(({ match }) =>
+        matchesHttpRequest(match, { query, headers, body }),
+      );
+
+      if (!matchingHandler) {
+        next();
+        return;
+      }
+
+      const { mock, handler } = matchingHandler;
+      if (handler({ body, query, params }, res)) {
+        setMatchedMock(res, mock);
+      } else {
+        next();
+      }
+    };
 
     switch (method) {
       case 'GET':
@@ -59,6 +140,15 @@ function applyHttpRoutes({
       case 'PATCH':
         router.patch(url, requestHandler);
         break;
+      case 'HEAD':
+        router.head(url, requestHandler);
+        break;
+      case 'OPTIONS':
+        router.options(url, requestHandler);
+        break;
+      case 'ALL':
+        router.all(url, requestHandler);
+        break;
       default:
         throw new Error(
           `Unrecognised HTTP method ${method} - please check your mock configuration`,
@@ -66,3 +156,14 @@ function applyHttpRoutes({
     }
   });
 }
+
+function getRouteOrder(method: HttpMethod) {
+  switch (method) {
+    case 'HEAD':
+      return 0;
+    case 'ALL':
+      return 2;
+    default:
+      return 1;
+  }
+}
@@ -1,7 +1,21 @@
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import rp from 'request-promise-native';
-import { ServerWithKill } from 'server-with-kill';
-
-import { run } from './index';
+import { Readable } from 'stream';
+import WebSocket from 'ws';
+
+import { cli } from './cli';
+import {
+  run,
+  runFile,
+  loadMockFile,
+  getOpenApiMocks,
+  getHarMocks,
+  MockServer,
+  Fake,
+} from './index';
 
 describe('run', () => {
   describe('port', () => {
@@ -1454,30 +1468,3497 @@ describe('run', () => {
       });
     });
   });
-});
+  describe('proxy', () => {
+    it('forwards requests that are not mocked', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/mocked',
+            method: 'GET',
+            response: { mocked: true },
+          },
+        ],
+        options: { proxy: 'http://localhost:4000' },
+      });
 
-function getStartTime() {
-  return process.hrtime();
-}
+      await proxyTest(server, async () => {
+        const mockedResponse = await rp.get('http://localhost:3000/mocked', {
+          json: true,
+        });
+        expect(mockedResponse).toEqual({ mocked: true });
 
-function getDuration(startTime: [number, number]) {
-  const hrend = process.hrtime(startTime);
-  return hrend[0] * 1000 + hrend[1] / 1000000;
-}
+        const proxiedResponse = await rp.post(
+          'http://localhost:3000/not-mocked?a=1',
+          { json: true, body: { some: 'body' } },
+        );
+        expect(proxiedResponse).toEqual({
+          method: 'POST',
+          url: '/not-mocked?a=1',
+          body: JSON.stringify({ some: 'body' }),
+          headers: expect.objectContaining({ host: 'localhost:4000' }),
+        });
+      });
+    });
 
-function serverTest(server: ServerWithKill, fn: Function) {
-  return new Promise((resolve, reject) => {
-    server.on('listening', async () => {
-      try {
-        await fn();
-        server.kill(() => {
-          resolve();
+    it('scenario mocks take precedence over proxied requests', async () => {
+      const server = run({
+        default: [],
+        scenarios: {
+          test: [
+            {
+              url: '/test-me',
+              method: 'GET',
+              response: { mocked: true },
+            },
+          ],
+        },
+        options: { proxy: 'http://localhost:4000' },
+      });
+
+      await proxyTest(server, async () => {
+        const firstResponse = await rp.get('http://localhost:3000/test-me', {
+          json: true,
         });
-      } catch (error) {
-        server.kill(() => {
-          reject(error);
+        expect(firstResponse).toEqual(
+          expect.objectContaining({ url: '/test-me' }),
+        );
+
+        await rp.put('http://localhost:3000/modify-scenarios', {
+          body: { scenarios: ['test'] },
+          json: true,
+        });
+
+        const secondResponse = await rp.get('http://localhost:3000/test-me', {
+          json: true,
+        });
+        expect(secondResponse).toEqual({ mocked: true });
+      });
+    });
+
+    it('forwards unmocked GraphQL operations with the original body', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            operations: [
+              {
+                type: 'query',
+                name: 'Mocked',
+                response: { data: { mocked: true } },
+              },
+            ],
+          },
+        ],
+        options: { proxy: 'http://localhost:4000' },
+      });
+
+      await proxyTest(server, async () => {
+        const body =
+          '{"query":"query NotMocked { name }","variables":{ "a": 1 }}';
+        const response = await rp.post('http://localhost:3000/graphql', {
+          headers: { 'Content-Type': 'application/json' },
+          body,
+        });
+
+        expect(JSON.parse(response).body).toEqual(body);
+      });
+    });
+
+    it('only forwards requests matching paths and rewrites headers', async () => {
+      const server = run({
+        default: [],
+        options: {
+          proxy: {
+            target: 'http://localhost:4000/base',
+            paths: ['/api', /^\/other/],
+            excludePaths: ['/api/excluded'],
+            requestHeaders: { 'X-Added': 'added', 'X-Removed': null },
+            responseHeaders: { 'X-Response': 'response' },
+          },
+        },
+      });
+
+      await proxyTest(server, async () => {
+        const response = await rp.get('http://localhost:3000/api/included', {
+          headers: { 'X-Removed': 'removed' },
+          json: true,
+          resolveWithFullResponse: true,
+        });
+
+        expect(response.body.url).toEqual('/base/api/included');
+        expect(response.body.headers['x-added']).toEqual('added');
+        expect(response.body.headers['x-removed']).toBeUndefined();
+        expect(response.headers['x-response']).toEqual('response');
+
+        const otherResponse = await rp.get('http://localhost:3000/other', {
+          json: true,
+        });
+        expect(otherResponse.url).toEqual('/base/other');
+
+        const [excludedResponse, unmatchedResponse] = await Promise.all([
+          rp.get('http://localhost:3000/api/excluded', {
+            simple: false,
+            resolveWithFullResponse: true,
+          }),
+          rp.get('http://localhost:3000/unmatched', {
+            simple: false,
+            resolveWithFullResponse: true,
+          }),
+        ]);
+        expect(excludedResponse.statusCode).toEqual(404);
+        expect(unmatchedResponse.statusCode).toEqual(404);
+      });
+    });
+  });
+  describe('record', () => {
+    it('records proxied responses as default mocks', async () => {
+      const file = getTemporaryFile('recording.json');
+      const server = run({
+        default: [],
+        options: { proxy: 'http://localhost:4000', record: file },
+      });
+
+      await proxyTest(server, async () => {
+        await rp.get('http://localhost:3000/api/test?a=1', {
+          headers: { 'Accept-Encoding': 'gzip, br' },
+          json: true,
+        });
+        await rp.post('http://localhost:3000/graphql', {
+          body: { query: 'query Cheese { name }' },
+          json: true,
+        });
+      });
+
+      const recording = JSON.parse(fs.readFileSync(file, 'utf8'));
+      expect(recording).toEqual({
+        default: [
+          {
+            url: '/api/test',
+            method: 'GET',
+            match: { query: { a: '1' } },
+            response: expect.objectContaining({
+              method: 'GET',
+              url: '/api/test?a=1',
+            }),
+          },
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            operations: [
+              {
+                type: 'query',
+                name: 'Cheese',
+                response: expect.objectContaining({
+                  method: 'POST',
+                  url: '/graphql',
+                }),
+              },
+            ],
+          },
+        ],
+        scenarios: {},
+      });
+      // Otherwise the response could be compressed
+      expect(
+        recording.default[0].response.headers['accept-encoding'],
+      ).toBeUndefined();
+    });
+
+    it('records into a named scenario of an existing file', async () => {
+      const file = getTemporaryFile('recording.json');
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          default: {
+            context: { existing: true },
+            mocks: [{ url: '/existing', method: 'GET', response: 'hi' }],
+          },
+          scenarios: { recorded: { group: 'recordings', mocks: [] } },
+        }),
+      );
+
+      const server = run({
+        default: [],
+        options: {
+          proxy: 'http://localhost:4000',
+          record: { file, scenario: 'recorded' },
+        },
+      });
+
+      await proxyTest(server, async () => {
+        await rp.delete('http://localhost:3000/api/test', { json: true });
+        await rp.delete('http://localhost:3000/api/test?second=true', {
+          json: true,
+        });
+      });
+
+      const recording = JSON.parse(fs.readFileSync(file, 'utf8'));
+      expect(recording.default).toEqual({
+        context: { existing: true },
+        mocks: [{ url: '/existing', method: 'GET', response: 'hi' }],
+      });
+      expect(recording.scenarios).toEqual({
+        recorded: {
+          group: 'recordings',
+          mocks: [
+            {
+              url: '/api/test',
+              method: 'DELETE',
+              response: expect.objectContaining({ url: '/api/test' }),
+            },
+            {
+              url: '/api/test',
+              method: 'DELETE',
+              match: { query: { second: 'true' } },
+              response: expect.objectContaining({
+                url: '/api/test?second=true',
+              }),
+            },
+          ],
+        },
+      });
+    });
+
+    it('keeps WebSocket mocks in existing files', async () => {
+      const file = getTemporaryFile('recording.json');
+      const webSocketMock = {
+        url: '/chat',
+        method: 'WEBSOCKET',
+        onConnect: [{ response: 'hi' }],
+      };
+      fs.writeFileSync(
+        file,
+        JSON.stringify({ default: [webSocketMock], scenarios: {} }),
+      );
+
+      const server = run({
+        default: [],
+        options: { proxy: 'http://localhost:4000', record: file },
+      });
+
+      await proxyTest(server, async () => {
+        await rp.get('http://localhost:3000/api/test', { json: true });
+      });
+
+      expect(JSON.parse(fs.readFileSync(file, 'utf8')).default).toEqual([
+        expect.objectContaining({ url: '/api/test', method: 'GET' }),
+        webSocketMock,
+      ]);
+    });
+
+    it('records binary responses as base64', async () => {
+      const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0x00]);
+      const backend = express()
+        .get('*', (_, res) => {
+          res.type('image/png').send(image);
+        })
+        .listen(4000);
+      const jsonFile = getTemporaryFile('recording.json');
+      const moduleFile = getTemporaryFile('recording.js');
+      const getImage = () =>
+        rp.get('http://localhost:3000/image.png', { encoding: null });
+
+      try {
+        for (const file of [jsonFile, moduleFile]) {
+          await serverTest(
+            run({
+              default: [],
+              options: { proxy: 'http://localhost:4000', record: file },
+            }),
+            getImage,
+          );
+        }
+      } finally {
+        await new Promise(resolve => backend.close(resolve));
+      }
+
+      expect(JSON.parse(fs.readFileSync(jsonFile, 'utf8')).default).toEqual([
+        {
+          url: '/image.png',
+          method: 'GET',
+          responseHeaders: { 'Content-Type': 'image/png' },
+          response: { __file: { content: { base64: 'iVBOR/8A' } } },
+        },
+      ]);
+      expect(fs.readFileSync(moduleFile, 'utf8')).toContain(
+        `"content": Buffer.from('iVBOR/8A', 'base64')`,
+      );
+
+      for (const mocks of [loadMockFile(jsonFile), require(moduleFile)]) {
+        await serverTest(run(mocks), async () => {
+          expect(await getImage()).toEqual(image);
         });
       }
     });
+
+    it('only records into modules it has written', async () => {
+      const file = getTemporaryFile('recording.js');
+      const options = { proxy: 'http://localhost:4000', record: file };
+      const server = run({ default: [], options });
+
+      await proxyTest(server, async () => {
+        await rp.get('http://localhost:3000/api/test', { json: true });
+      });
+
+      expect(fs.readFileSync(file, 'utf8')).toMatch(
+        /^\/\/ Recorded by data-mocks-server\nmodule\.exports = /,
+      );
+      await run({ default: [], options }).close();
+
+      fs.writeFileSync(file, 'module.exports = { default: [] };');
+      expect(() => run({ default: [], options })).toThrow(
+        'as it was not written by record mode',
+      );
+    });
+
+    it('throws when proxy is not set', () => {
+      expect(() =>
+        run({ default: [], options: { record: 'recording.json' } }),
+      ).toThrow('"record" requires "proxy" to be set');
+    });
+  });
+  describe('OpenAPI mocks', () => {
+    const document = {
+      openapi: '3.0.0',
+      paths: {
+        '/pets': {
+          get: {
+            operationId: 'listPets',
+            responses: {
+              '200': {
+                description: 'Pets',
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/Pet' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '/pets/{petId}': {
+          get: {
+            operationId: 'getPet',
+            responses: {
+              '200': {
+                description: 'Pet',
+                content: {
+                  'application/json': {
+                    examples: {
+                      rex: { value: { id: 1, name: 'Rex' } },
+                    },
+                  },
+                },
+              },
+              '404': { $ref: '#/components/responses/NotFound' },
+            },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Pet: {
+            type: 'object',
+            properties: {
+              id: { type: 'integer', minimum: 1 },
+              name: { type: 'string' },
+              born: { type: 'string', format: 'date' },
+              type: { type: 'string', enum: ['dog', 'cat'] },
+            },
+          },
+        },
+        responses: {
+          NotFound: {
+            description: 'Not found',
+            content: {
+              'text/plain': { example: 'Pet not found' },
+            },
+          },
+        },
+      },
+    };
+
+    it('creates mocks from examples and schemas', async () => {
+      const { default: openApiMocks, scenarios } = getOpenApiMocks(document, {
+        basePath: '/api',
+      });
+
+      const server = run({
+        default: openApiMocks,
+        scenarios,
+      });
+
+      await serverTest(server, async () => {
+        const [pets, pet] = await Promise.all([
+          rp.get('http://localhost:3000/api/pets', { json: true }),
+          rp.get('http://localhost:3000/api/pets/1', { json: true }),
+        ]);
+
+        expect(pets).toEqual([
+          { id: 1, name: 'string', born: '2020-01-01', type: 'dog' },
+        ]);
+        expect(pet).toEqual({ id: 1, name: 'Rex' });
+      });
+    });
+
+    it('creates scenarios from status codes', async () => {
+      const { default: openApiMocks, scenarios } = getOpenApiMocks(document);
+
+      expect(Object.keys(scenarios)).toEqual(['getPet:404']);
+
+      const server = run({
+        default: openApiMocks,
+        scenarios,
+      });
+
+      await serverTest(server, async () => {
+        await rp.put('http://localhost:3000/modify-scenarios', {
+          body: { scenarios: ['getPet:404'] },
+          json: true,
+        });
+
+        const response = await rp.get('http://localhost:3000/pets/1', {
+          simple: false,
+          resolveWithFullResponse: true,
+        });
+
+        expect(response.statusCode).toEqual(404);
+        expect(response.headers['content-type']).toContain('text/plain');
+        expect(response.body).toEqual('Pet not found');
+      });
+    });
+
+    it('can be overridden by default mocks', async () => {
+      const { default: openApiMocks } = getOpenApiMocks(document);
+      const expectedResponse = { id: 2, name: 'Tom' };
+
+      const server = run({
+        default: [
+          ...openApiMocks,
+          {
+            url: '/pets/:petId',
+            method: 'GET',
+            response: expectedResponse,
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const response = await rp.get('http://localhost:3000/pets/2', {
+          json: true,
+        });
+
+        expect(response).toEqual(expectedResponse);
+      });
+    });
   });
+  describe('GraphQL schema mocks', () => {
+    const schema = `
+      type User {
+        id: ID!
+        name: String
+        age: Int
+        admin: Boolean
+        status: Status
+        friends: [User]
+      }
+
+      enum Status {
+        ACTIVE
+        INACTIVE
+      }
+
+      type Query {
+        user(id: ID!): User
+      }
+
+      type Mutation {
+        renameUser(id: ID!, name: String!): User
+      }
+    `;
+
+    it('generates responses from the schema', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            schema,
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const response = await rp.post('http://localhost:3000/graphql', {
+          body: {
+            query:
+              'query User { user(id: "1") { id name age admin status friends { name } } }',
+          },
+          json: true,
+        });
+
+        expect(response).toEqual({
+          data: {
+            user: {
+              id: '00000000-0000-0000-0000-000000000000',
+              name: 'Hello World',
+              age: 42,
+              admin: true,
+              status: 'ACTIVE',
+              friends: [{ name: 'Hello World' }, { name: 'Hello World' }],
+            },
+          },
+        });
+      });
+    });
+
+    it('uses type and field resolvers', async () => {
+      const server = run({
+        default: {
+          context: { name: 'Alice' },
+          mocks: [
+            {
+              url: '/graphql',
+              method: 'GRAPHQL',
+              schema,
+              resolvers: {
+                String: () => 'Text',
+                User: () => ({ age: 30 }),
+                Mutation: {
+                  renameUser: ({ args, updateContext }) =>
+                    updateContext({ name: args.name }),
+                },
+                Query: {
+                  user: ({ args, context }) => ({
+                    id: args.id,
+                    name: context.name,
+                  }),
+                },
+              },
+            },
+          ],
+        },
+      });
+
+      await serverTest(server, async () => {
+        const query = 'query User { user(id: "1") { id name age status } }';
+        const firstResponse = await rp.post('http://localhost:3000/graphql', {
+          body: { query },
+          json: true,
+        });
+
+        expect(firstResponse).toEqual({
+          data: { user: { id: '1', name: 'Alice', age: 42, status: 'ACTIVE' } },
+        });
+
+        const mutationResponse = await rp.post(
+          'http://localhost:3000/graphql',
+          {
+            body: {
+              query:
+                'mutation Rename { renameUser(id: "1", name: "Bob") { name friends { name age } } }',
+            },
+            json: true,
+          },
+        );
+
+        expect(mutationResponse).toEqual({
+          data: {
+            renameUser: {
+              name: 'Bob',
+              friends: [{ name: 'Text', age: 30 }, { name: 'Text', age: 30 }],
+            },
+          },
+        });
+
+        const secondResponse = await rp.post('http://localhost:3000/graphql', {
+          body: { query },
+          json: true,
+        });
+
+        expect(secondResponse.data.user.name).toEqual('Bob');
+      });
+    });
+
+    it('explicit operations take precedence', async () => {
+      const expectedResponse = { data: { user: null } };
+      const server = run({
+        default: [
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            schema,
+          },
+        ],
+        scenarios: {
+          noUser: [
+            {
+              url: '/graphql',
+              method: 'GRAPHQL',
+              operations: [
+                {
+                  type: 'query',
+                  name: 'User',
+                  response: expectedResponse,
+                },
+              ],
+            },
+          ],
+        },
+      });
+
+      await serverTest(server, async () => {
+        const query = 'query User { user(id: "1") { name } }';
+        const firstResponse = await rp.post('http://localhost:3000/graphql', {
+          body: { query },
+          json: true,
+        });
+        expect(firstResponse).toEqual({
+          data: { user: { name: 'Hello World' } },
+        });
+
+        await rp.put('http://localhost:3000/modify-scenarios', {
+          body: { scenarios: ['noUser'] },
+          json: true,
+        });
+
+        const secondResponse = await rp.post('http://localhost:3000/graphql', {
+          body: { query },
+          json: true,
+        });
+        expect(secondResponse).toEqual(expectedResponse);
+      });
+    });
+
+    it('errors when the query does not match the schema', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            schema,
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const response = await rp.post('http://localhost:3000/graphql', {
+          body: { query: 'query User { unknown }' },
+          json: true,
+          simple: false,
+          resolveWithFullResponse: true,
+        });
+
+        expect(response.statusCode).toEqual(400);
+        expect(response.body.errors[0].message).toEqual(
+          'Cannot query field "unknown" on type "Query".',
+        );
+      });
+    });
+  });
+  describe('GraphQL subscriptions', () => {
+    it('sends events over graphql-ws', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            operations: [
+              {
+                type: 'subscription',
+                name: 'OrderStatus',
+                response: [
+                  { response: { data: { status: 'PLACED' } } },
+                  { response: { data: { status: 'SHIPPED' } }, delay: 100 },
+                ],
+              },
+            ],
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const messages = await getWebSocketMessages(
+          'ws://localhost:3000/graphql',
+          'graphql-transport-ws',
+          [
+            { type: 'connection_init' },
+            {
+              id: '1',
+              type: 'subscribe',
+              payload: { query: 'subscription OrderStatus { status }' },
+            },
+          ],
+          4,
+        );
+
+        expect(messages).toEqual([
+          { type: 'connection_ack' },
+          { id: '1', type: 'next', payload: { data: { status: 'PLACED' } } },
+          { id: '1', type: 'next', payload: { data: { status: 'SHIPPED' } } },
+          { id: '1', type: 'complete' },
+        ]);
+      });
+    });
+
+    it('supports response functions and scenarios over subscriptions-transport-ws', async () => {
+      const server = run({
+        default: {
+          context: { status: 'PLACED' },
+          mocks: [
+            {
+              url: '/graphql',
+              method: 'GRAPHQL',
+              operations: [
+                {
+                  type: 'subscription',
+                  name: 'OrderStatus',
+                  response: ({ variables, context, push, complete }) => {
+                    push({
+                      data: { id: variables.id, status: context.status },
+                    });
+                    complete();
+                  },
+                },
+              ],
+            },
+          ],
+        },
+        scenarios: {
+          cancelled: [
+            {
+              url: '/graphql',
+              method: 'GRAPHQL',
+              operations: [
+                {
+                  type: 'subscription',
+                  name: 'OrderStatus',
+                  response: [{ response: { data: { status: 'CANCELLED' } } }],
+                },
+              ],
+            },
+          ],
+        },
+      });
+
+      await serverTest(server, async () => {
+        const start = {
+          id: '1',
+          type: 'start',
+          payload: {
+            query: 'subscription OrderStatus($id: ID) { status }',
+            variables: { id: 'order-1' },
+          },
+        };
+
+        const firstMessages = await getWebSocketMessages(
+          'ws://localhost:3000/graphql',
+          'graphql-ws',
+          [{ type: 'connection_init' }, start],
+          3,
+        );
+
+        expect(firstMessages).toEqual([
+          { type: 'connection_ack' },
+          {
+            id: '1',
+            type: 'data',
+            payload: { data: { id: 'order-1', status: 'PLACED' } },
+          },
+          { id: '1', type: 'complete' },
+        ]);
+
+        await rp.put('http://localhost:3000/modify-scenarios', {
+          body: { scenarios: ['cancelled'] },
+          json: true,
+        });
+
+        const secondMessages = await getWebSocketMessages(
+          'ws://localhost:3000/graphql',
+          'graphql-ws',
+          [{ type: 'connection_init' }, start],
+          3,
+        );
+
+        expect(secondMessages[1]).toEqual({
+          id: '1',
+          type: 'data',
+          payload: { data: { status: 'CANCELLED' } },
+        });
+      });
+    });
+
+    it('errors when the subscription is not mocked', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            operations: [
+              {
+                type: 'subscription',
+                name: 'OrderStatus',
+                response: [],
+              },
+            ],
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const messages = await getWebSocketMessages(
+          'ws://localhost:3000/graphql',
+          'graphql-transport-ws',
+          [
+            { type: 'connection_init' },
+            {
+              id: '1',
+              type: 'subscribe',
+              payload: { query: 'subscription Unknown { status }' },
+            },
+          ],
+          2,
+        );
+
+        expect(messages[1]).toEqual({
+          id: '1',
+          type: 'error',
+          payload: [
+            {
+              message:
+                'subscription "Unknown" has not been mocked for subscriptions',
+            },
+          ],
+        });
+      });
+    });
+
+    it('errors when a response function throws', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            operations: [
+              {
+                type: 'subscription',
+                name: 'Throws',
+                response: () => {
+                  throw new Error('Thrown');
+                },
+              },
+              {
+                type: 'subscription',
+                name: 'Rejects',
+                response: async () => {
+                  throw new Error('Rejected');
+                },
+              },
+            ],
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const messages = await getWebSocketMessages(
+          'ws://localhost:3000/graphql',
+          'graphql-transport-ws',
+          [
+            { type: 'connection_init' },
+            {
+              id: '1',
+              type: 'subscribe',
+              payload: { query: 'subscription Throws { status }' },
+            },
+            {
+              id: '2',
+              type: 'subscribe',
+              payload: { query: 'subscription Rejects { status }' },
+            },
+          ],
+          3,
+        );
+
+        expect(messages.slice(1)).toEqual([
+          { id: '1', type: 'error', payload: [{ message: 'Thrown' }] },
+          { id: '2', type: 'error', payload: [{ message: 'Rejected' }] },
+        ]);
+      });
+    });
+  });
+  describe('WebSocket mocks', () => {
+    it('sends messages on connect and replies to matching messages', async () => {
+      const server = run({
+        default: {
+          context: { unread: 3 },
+          mocks: [
+            {
+              url: '/chat',
+              method: 'WEBSOCKET',
+              onConnect: [
+                { response: 'welcome' },
+                { response: { type: 'notice' }, delay: 50 },
+              ],
+              replies: [
+                { match: 'ping', response: 'pong' },
+                {
+                  match: /^echo:/,
+                  response: ({ message }) => message.slice(5),
+                },
+                {
+                  match: { type: 'unread' },
+                  response: ({ context, updateContext }) => {
+                    updateContext({ unread: 0 });
+
+                    return { unread: context.unread };
+                  },
+                },
+                { match: message => message === 'ignore', response: () => {} },
+              ],
+            },
+          ],
+        },
+      });
+
+      await serverTest(server, async () => {
+        const messages = await getWebSocketMessages(
+          'ws://localhost:3000/chat',
+          undefined,
+          ['ignore', 'ping', 'echo:hello', { type: 'unread' }],
+          5,
+        );
+
+        expect(messages).toEqual([
+          'welcome',
+          'pong',
+          'hello',
+          { unread: 3 },
+          { type: 'notice' },
+        ]);
+      });
+    });
+
+    it('supports scripted pushes and scenarios', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/notifications',
+            method: 'WEBSOCKET',
+            onConnect: ({ send, close }) => {
+              send('first');
+              send('second');
+              close();
+            },
+          },
+        ],
+        scenarios: {
+          quiet: [
+            {
+              url: '/notifications',
+              method: 'WEBSOCKET',
+              onConnect: [{ response: 'nothing new' }],
+            },
+          ],
+        },
+      });
+
+      await serverTest(server, async () => {
+        const firstMessages = await getWebSocketMessages(
+          'ws://localhost:3000/notifications',
+          undefined,
+          [],
+          2,
+        );
+        expect(firstMessages).toEqual(['first', 'second']);
+
+        await rp.put('http://localhost:3000/modify-scenarios', {
+          body: { scenarios: ['quiet'] },
+          json: true,
+        });
+
+        const secondMessages = await getWebSocketMessages(
+          'ws://localhost:3000/notifications',
+          undefined,
+          [],
+          1,
+        );
+        expect(secondMessages).toEqual(['nothing new']);
+      });
+    });
+
+    it('closes the connection when a function throws', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/connect',
+            method: 'WEBSOCKET',
+            onConnect: () => {
+              throw new Error('Thrown');
+            },
+          },
+          {
+            url: '/reply',
+            method: 'WEBSOCKET',
+            replies: [
+              {
+                match: () => {
+                  throw new Error('Thrown');
+                },
+                response: 'unreachable',
+              },
+            ],
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const getCloseCode = (url: string, message?: string) =>
+          new Promise<number>((resolve, reject) => {
+            const socket = new WebSocket(url);
+            socket.on('open', () => {
+              if (message) {
+                socket.send(message);
+              }
+            });
+            socket.on('close', resolve);
+            socket.on('error', reject);
+          });
+
+        expect(await getCloseCode('ws://localhost:3000/connect')).toEqual(1011);
+        expect(
+          await getCloseCode('ws://localhost:3000/reply', 'hello'),
+        ).toEqual(1011);
+      });
+    });
+  });
+  describe('streamed responses', () => {
+    it('sends server-sent events', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/events',
+            method: 'GET',
+            response: {
+              __stream: {
+                chunks: [
+                  { data: 'pending', event: 'status', id: '1' },
+                  { data: { progress: 50 }, delay: 50 },
+                  { data: 'line 1\nline 2' },
+                ],
+              },
+            },
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const startTime = getStartTime();
+        const response = await rp.get('http://localhost:3000/events', {
+          resolveWithFullResponse: true,
+        });
+        const duration = getDuration(startTime);
+
+        expect(duration).toBeGreaterThanOrEqual(50);
+        expect(response.headers['content-type']).toEqual(
+          'text/event-stream; charset=utf-8',
+        );
+        expect(response.body).toEqual(
+          'id: 1\nevent: status\ndata: pending\n\n' +
+            'data: {"progress":50}\n\n' +
+            'data: line 1\ndata: line 2\n\n',
+        );
+      });
+    });
+
+    it('sends chunks from async generators', async () => {
+      const server = run({
+        default: {
+          context: { suffix: '!' },
+          mocks: [
+            {
+              url: '/tokens',
+              method: 'GET',
+              response: () => ({
+                __stream: {
+                  type: 'chunked',
+                  chunks: async function*({ query, context }) {
+                    for (const token of String(query.text).split(' ')) {
+                      yield `${token} `;
+                    }
+
+                    yield { data: { done: context.suffix }, delay: 10 };
+                  },
+                },
+              }),
+            },
+          ],
+        },
+      });
+
+      await serverTest(server, async () => {
+        const response = await rp.get(
+          'http://localhost:3000/tokens?text=hello%20streaming%20world',
+          { resolveWithFullResponse: true },
+        );
+
+        expect(response.headers['content-type']).toEqual(
+          'text/plain; charset=utf-8',
+        );
+        expect(response.headers['transfer-encoding']).toEqual('chunked');
+        expect(response.body).toEqual('hello streaming world {"done":"!"}\n');
+      });
+    });
+
+    it('drops the connection when a stream fails', async () => {
+      const consoleError = jest
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
+      const server = run({
+        default: [
+          {
+            url: '/tokens',
+            method: 'GET',
+            response: {
+              __stream: {
+                type: 'chunked',
+                chunks: async function*() {
+                  yield 'first ';
+                  throw new Error('Stream failed');
+                },
+              },
+            },
+          },
+          {
+            url: '/fails',
+            method: 'GET',
+            response: () => {
+              throw new Error('Response failed');
+            },
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        // Older versions of Node end the response rather than failing it
+        await rp.get('http://localhost:3000/tokens').catch(() => {});
+        await expect(
+          rp.get('http://localhost:3000/fails', { json: true }),
+        ).rejects.toMatchObject({
+          statusCode: 500,
+          error: { message: 'Response failed' },
+        });
+        expect(consoleError).toHaveBeenCalledTimes(2);
+      });
+
+      consoleError.mockRestore();
+    });
+  });
+  describe('request journal', () => {
+    it('records requests', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/test-me/:id',
+            method: 'POST',
+            responseCode: 201,
+          },
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            operations: [
+              {
+                type: 'mutation',
+                name: 'Checkout',
+                response: { data: {} },
+              },
+            ],
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        await rp.post('http://localhost:3000/test-me/1?page=2', {
+          body: { some: 'body' },
+          headers: { 'X-Test': 'test' },
+          json: true,
+        });
+        await rp.post('http://localhost:3000/graphql', {
+          body: {
+            query: 'mutation Checkout($id: ID) { checkout(id: $id) }',
+            variables: { id: 'basket' },
+          },
+          json: true,
+        });
+        await rp.get('http://localhost:3000/unknown', { simple: false });
+
+        const requests = await rp.get('http://localhost:3000/requests', {
+          json: true,
+        });
+
+        expect(requests).toEqual([
+          {
+            id: 1,
+            timestamp: expect.any(String),
+            method: 'POST',
+            path: '/test-me/1',
+            query: { page: '2' },
+            headers: expect.objectContaining({ 'x-test': 'test' }),
+            body: { some: 'body' },
+            mock: { url: '/test-me/:id', method: 'POST' },
+            responseCode: 201,
+            duration: expect.any(Number),
+            session: null,
+          },
+          expect.objectContaining({
+            id: 2,
+            path: '/graphql',
+            graphQl: {
+              operationType: 'mutation',
+              operationName: 'Checkout',
+              variables: { id: 'basket' },
+            },
+            mock: {
+              url: '/graphql',
+              method: 'GRAPHQL',
+              operationType: 'mutation',
+              operationName: 'Checkout',
+            },
+            responseCode: 200,
+          }),
+          expect.objectContaining({
+            id: 3,
+            path: '/unknown',
+            mock: null,
+            responseCode: 404,
+          }),
+        ]);
+      });
+    });
+
+    it('can be filtered and cleared', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/test-me',
+            method: 'GET',
+          },
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            operations: [
+              {
+                type: 'query',
+                name: 'Cheese',
+                response: { data: {} },
+              },
+            ],
+          },
+        ],
+        options: { requestsPath: '/journal' },
+      });
+
+      await serverTest(server, async () => {
+        await rp.get('http://localhost:3000/test-me');
+        await rp.post('http://localhost:3000/test-me', { simple: false });
+        await rp.get('http://localhost:3000/graphql?query=query Cheese { a }');
+
+        const [
+          getRequests,
+          cheeseRequests,
+          unmatchedRequests,
+        ] = await Promise.all([
+          rp.get('http://localhost:3000/journal?method=get', { json: true }),
+          rp.get('http://localhost:3000/journal?operationName=Cheese', {
+            json: true,
+          }),
+          rp.get('http://localhost:3000/journal?matched=false', {
+            json: true,
+          }),
+        ]);
+
+        expect(getRequests.map(({ id }: { id: number }) => id)).toEqual([1, 3]);
+        expect(cheeseRequests.map(({ id }: { id: number }) => id)).toEqual([3]);
+        expect(unmatchedRequests.map(({ id }: { id: number }) => id)).toEqual([
+          2,
+        ]);
+
+        await rp.delete('http://localhost:3000/journal');
+
+        const requests = await rp.get('http://localhost:3000/journal', {
+          json: true,
+        });
+        expect(requests).toEqual([]);
+      });
+    });
+
+    it('can be filtered and cleared by session', async () => {
+      const server = run({
+        default: [{ url: '/test-me', method: 'GET' }],
+        options: { requestsLimit: 3 },
+      });
+
+      await serverTest(server, async () => {
+        const get = (session: string) =>
+          rp.get('http://localhost:3000/test-me', {
+            headers: { 'X-Mock-Session': session },
+          });
+        const getIds = async (query = '') =>
+          (await rp.get(`http://localhost:3000/requests${query}`, {
+            json: true,
+          })).map(({ id }: { id: number }) => id);
+
+        await get('worker-1');
+        await get('worker-2');
+        await get('worker-1');
+        await get('worker-2');
+
+        // Only the latest 3 requests are kept
+        expect(await getIds()).toEqual([2, 3, 4]);
+        expect(await getIds('?session=worker-1')).toEqual([3]);
+        expect(
+          server.getRequests({ session: 'worker-2' }).map(({ id }) => id),
+        ).toEqual([2, 4]);
+
+        await rp.delete('http://localhost:3000/requests?session=worker-2');
+        expect(await getIds()).toEqual([3]);
+      });
+    });
+  });
+  describe('request matchers', () => {
+    it('picks the most specific matching HTTP mock', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/search',
+            method: 'POST',
+            response: 'default',
+          },
+          {
+            url: '/search',
+            method: 'POST',
+            match: { query: { page: '2' } },
+            response: 'page 2',
+          },
+          {
+            url: '/search',
+            method: 'POST',
+            match: { query: { page: '2' }, headers: { 'X-Beta': 'true' } },
+            response: 'page 2 beta',
+          },
+          {
+            url: '/search',
+            method: 'POST',
+            match: { body: { filters: { colour: 'red' } } },
+            response: 'red',
+          },
+          {
+            url: '/search',
+            method: 'POST',
+            match: { bodyPaths: { '$.items[1].id': 'b' } },
+            response: 'second item b',
+          },
+          {
+            url: '/search',
+            method: 'POST',
+            match: { cookies: { session: 'abc' } },
+            response: 'cookie',
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const post = (url: string, options: Record<string, any> = {}) =>
+          rp.post(`http://localhost:3000${url}`, { json: true, ...options });
+
+        const responses = await Promise.all([
+          post('/search'),
+          post('/search?page=2'),
+          post('/search?page=2', { headers: { 'X-Beta': 'true' } }),
+          post('/search', {
+            body: { filters: { colour: 'red', size: 'large' } },
+          }),
+          post('/search', { body: { items: [{ id: 'a' }, { id: 'b' }] } }),
+          post('/search', { headers: { Cookie: 'other=1; session=abc' } }),
+          post('/search?page=2', { headers: { Cookie: 'other=100%' } }),
+        ]);
+
+        expect(responses).toEqual([
+          'default',
+          'page 2',
+          'page 2 beta',
+          'red',
+          'second item b',
+          'cookie',
+          'page 2',
+        ]);
+      });
+    });
+
+    it('falls through when nothing matches', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/search',
+            method: 'GET',
+            match: { query: { page: '2' } },
+            response: 'page 2',
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const response = await rp.get('http://localhost:3000/search', {
+          simple: false,
+          resolveWithFullResponse: true,
+        });
+
+        expect(response.statusCode).toEqual(404);
+      });
+    });
+
+    it('scenarios can override a single matcher', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/search',
+            method: 'GET',
+            response: 'default',
+          },
+          {
+            url: '/search',
+            method: 'GET',
+            match: { query: { page: '2' } },
+            response: 'page 2',
+          },
+        ],
+        scenarios: {
+          test: [
+            {
+              url: '/search',
+              method: 'GET',
+              match: { query: { page: '2' } },
+              response: 'scenario page 2',
+            },
+          ],
+        },
+      });
+
+      await serverTest(server, async () => {
+        await rp.put('http://localhost:3000/modify-scenarios', {
+          body: { scenarios: ['test'] },
+          json: true,
+        });
+
+        const responses = await Promise.all([
+          rp.get('http://localhost:3000/search', { json: true }),
+          rp.get('http://localhost:3000/search?page=2', { json: true }),
+        ]);
+
+        expect(responses).toEqual(['default', 'scenario page 2']);
+      });
+    });
+
+    it('matches GraphQL operations by variables', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            operations: [
+              {
+                type: 'query',
+                name: 'User',
+                response: { data: { user: 'default' } },
+              },
+              {
+                type: 'query',
+                name: 'User',
+                match: { variables: { id: '2' } },
+                response: { data: { user: 'second' } },
+              },
+            ],
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const query = 'query User($id: ID) { user(id: $id) }';
+        const responses = await Promise.all([
+          rp.post('http://localhost:3000/graphql', {
+            body: { query, variables: { id: '1' } },
+            json: true,
+          }),
+          rp.post('http://localhost:3000/graphql', {
+            body: { query, variables: { id: '2' } },
+            json: true,
+          }),
+        ]);
+
+        expect(responses).toEqual([
+          { data: { user: 'default' } },
+          { data: { user: 'second' } },
+        ]);
+      });
+    });
+  });
+  describe('sequenced responses', () => {
+    it('repeat the last response by default', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/job',
+            method: 'GET',
+            responseCode: 202,
+            response: {
+              __sequence: {
+                responses: [
+                  { response: { status: 'pending' } },
+                  { response: { status: 'pending' } },
+                  { response: { status: 'done' }, responseCode: 200 },
+                ],
+              },
+            },
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const responses = [];
+        for (let i = 0; i < 4; i++) {
+          const { statusCode, body } = await rp.get(
+            'http://localhost:3000/job',
+            { json: true, resolveWithFullResponse: true },
+          );
+          responses.push([statusCode, body.status]);
+        }
+
+        expect(responses).toEqual([
+          [202, 'pending'],
+          [202, 'pending'],
+          [200, 'done'],
+          [200, 'done'],
+        ]);
+      });
+    });
+
+    it('can loop or fall through', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/loop',
+            method: 'GET',
+            response: {
+              __sequence: {
+                responses: [{ response: 'a' }, { response: 'b' }],
+                afterLast: 'loop',
+              },
+            },
+          },
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            operations: [
+              {
+                type: 'query',
+                name: 'Retry',
+                response: {
+                  __sequence: {
+                    responses: [
+                      { response: { errors: [{ message: 'failed' }] } },
+                    ],
+                    afterLast: 'fallThrough',
+                  },
+                },
+              },
+            ],
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const loopResponses = [];
+        for (let i = 0; i < 3; i++) {
+          loopResponses.push(
+            await rp.get('http://localhost:3000/loop', { json: true }),
+          );
+        }
+        expect(loopResponses).toEqual(['a', 'b', 'a']);
+
+        const url = 'http://localhost:3000/graphql?query=query Retry { a }';
+        const firstResponse = await rp.get(url, { json: true });
+        expect(firstResponse).toEqual({ errors: [{ message: 'failed' }] });
+
+        const secondResponse = await rp.get(url, {
+          simple: false,
+          resolveWithFullResponse: true,
+        });
+        expect(secondResponse.statusCode).toEqual(404);
+      });
+    });
+
+    it('positions can be viewed and reset, and reset when scenarios change', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/sequence',
+            method: 'GET',
+            response: {
+              __sequence: {
+                responses: [{ response: 1 }, { response: 2 }],
+              },
+            },
+          },
+        ],
+        scenarios: { test: [] },
+      });
+
+      await serverTest(server, async () => {
+        const get = () =>
+          rp.get('http://localhost:3000/sequence', { json: true });
+
+        expect(await get()).toEqual(1);
+
+        const sequences = await rp.get('http://localhost:3000/sequences', {
+          json: true,
+        });
+        expect(sequences).toEqual([
+          { url: '/sequence', method: 'GET', calls: 1, length: 2 },
+        ]);
+
+        await rp.delete('http://localhost:3000/sequences');
+        expect(await get()).toEqual(1);
+        expect(await get()).toEqual(2);
+
+        await rp.put('http://localhost:3000/modify-scenarios', {
+          body: { scenarios: ['test'] },
+          json: true,
+        });
+        expect(await get()).toEqual(1);
+      });
+    });
+  });
+  describe('sessions', () => {
+    it('select scenarios for each session', async () => {
+      const server = run({
+        default: [{ url: '/test-me', method: 'GET', response: 'default' }],
+        scenarios: {
+          one: [{ url: '/test-me', method: 'GET', response: 'one' }],
+          two: [{ url: '/test-me', method: 'GET', response: 'two' }],
+        },
+      });
+
+      await serverTest(server, async () => {
+        await rp.put('http://localhost:3000/modify-scenarios', {
+          body: { scenarios: ['one'], session: 'worker-1' },
+          json: true,
+        });
+        await rp.put('http://localhost:3000/modify-scenarios', {
+          body: { scenarios: ['two'] },
+          headers: { 'X-Mock-Session': 'worker-2' },
+          json: true,
+        });
+
+        const get = (headers: Record<string, string> = {}) =>
+          rp.get('http://localhost:3000/test-me', { headers, json: true });
+
+        expect(await get({ 'X-Mock-Session': 'worker-1' })).toEqual('one');
+        expect(await get({ Cookie: 'mock-session=worker-2' })).toEqual('two');
+        expect(await get({ 'X-Mock-Session': 'worker-3' })).toEqual('default');
+        expect(await get()).toEqual('default');
+
+        await rp.put('http://localhost:3000/reset-scenarios', {
+          body: { session: 'worker-1' },
+          json: true,
+        });
+        expect(await get({ 'X-Mock-Session': 'worker-1' })).toEqual('default');
+        expect(await get({ 'X-Mock-Session': 'worker-2' })).toEqual('two');
+      });
+    });
+
+    it('keep context separate for each session', async () => {
+      const server = run({
+        default: {
+          context: { count: 0 },
+          mocks: [
+            {
+              url: '/count',
+              method: 'POST',
+              response: ({ context, updateContext }) =>
+                updateContext({ count: context.count + 1 }),
+            },
+          ],
+        },
+      });
+
+      await serverTest(server, async () => {
+        const post = (headers: Record<string, string> = {}) =>
+          rp.post('http://localhost:3000/count', { headers, json: true });
+
+        await post({ 'X-Mock-Session': 'worker-1' });
+        await post({ 'X-Mock-Session': 'worker-1' });
+
+        expect(await post({ 'X-Mock-Session': 'worker-1' })).toEqual({
+          count: 3,
+        });
+        expect(await post({ 'X-Mock-Session': 'worker-2' })).toEqual({
+          count: 1,
+        });
+        expect(await post()).toEqual({ count: 1 });
+      });
+    });
+
+    it('keep cookies that are not encoded as they are', async () => {
+      const server = run({
+        default: [
+          { url: '/test-me', method: 'GET', response: 'default' },
+          {
+            url: '/chat',
+            method: 'WEBSOCKET',
+            onConnect: [{ response: 'hi' }],
+          },
+        ],
+        scenarios: {
+          one: [{ url: '/test-me', method: 'GET', response: 'one' }],
+        },
+      });
+
+      await serverTest(server, async () => {
+        await rp.put('http://localhost:3000/modify-scenarios', {
+          body: { scenarios: ['one'], session: 'worker-1' },
+          json: true,
+        });
+
+        const get = (cookie: string) =>
+          rp.get('http://localhost:3000/test-me', {
+            headers: { Cookie: cookie },
+            json: true,
+          });
+
+        expect(await get('other=100%')).toEqual('default');
+        expect(await get('other=100%; mock-session=worker-1')).toEqual('one');
+
+        const message = await new Promise(resolve => {
+          const socket = new WebSocket('ws://localhost:3000/chat', {
+            headers: { Cookie: 'other=100%' },
+          });
+          socket.on('message', data => {
+            socket.close();
+            resolve(String(data));
+          });
+        });
+        expect(message).toEqual('hi');
+      });
+    });
+  });
+  describe('controller', () => {
+    it('can select and reset scenarios', async () => {
+      const server = run({
+        default: [{ url: '/test-me', method: 'GET', response: 'default' }],
+        scenarios: {
+          one: {
+            group: 'test',
+            mocks: [{ url: '/test-me', method: 'GET', response: 'one' }],
+          },
+          two: {
+            group: 'test',
+            mocks: [{ url: '/test-me', method: 'GET', response: 'two' }],
+          },
+        },
+      });
+
+      await serverTest(server, async () => {
+        const get = () =>
+          rp.get('http://localhost:3000/test-me', { json: true });
+
+        server.setScenarios(['one']);
+        expect(server.getSelectedScenarios()).toEqual(['one']);
+        expect(await get()).toEqual('one');
+
+        expect(() => server.setScenarios(['three'])).toThrow(
+          'Scenario "three" does not exist',
+        );
+        expect(() => server.setScenarios(['one', 'two'])).toThrow(
+          'Scenario "two" cannot be selected, because scenario "one" from group "test" has already been selected',
+        );
+        expect(server.getSelectedScenarios()).toEqual(['one']);
+
+        server.setScenarios(['two'], 'worker-1');
+        expect(server.getSelectedScenarios('worker-1')).toEqual(['two']);
+
+        server.resetScenarios();
+        expect(server.getSelectedScenarios()).toEqual([]);
+        expect(await get()).toEqual('default');
+      });
+    });
+
+    it('can get and set context', async () => {
+      const server = run({
+        default: {
+          context: { items: 0 },
+          mocks: [
+            {
+              url: '/basket',
+              method: 'GET',
+              response: ({ context }) => context,
+            },
+          ],
+        },
+      });
+
+      await serverTest(server, async () => {
+        expect(server.getContext()).toEqual({ items: 0 });
+
+        server.setContext({ items: 3 });
+
+        const response = await rp.get('http://localhost:3000/basket', {
+          json: true,
+        });
+        expect(response).toEqual({ items: 3 });
+      });
+    });
+
+    it('can add mocks and get requests', async () => {
+      const server = run({
+        default: [
+          { url: '/test-me', method: 'GET', response: 'default' },
+          {
+            url: '/count',
+            method: 'GET',
+            response: {
+              __sequence: { responses: [{ response: 1 }, { response: 2 }] },
+            },
+          },
+        ],
+        scenarios: {
+          test: [{ url: '/test-me', method: 'GET', response: 'test' }],
+        },
+      });
+
+      await serverTest(server, async () => {
+        const getCount = () =>
+          rp.get('http://localhost:3000/count', { json: true });
+
+        server.setScenarios(['test']);
+        server.setContext({ items: 3 });
+        expect(await getCount()).toEqual(1);
+        server.addMocks([{ url: '/added', method: 'GET', response: 'added' }]);
+        expect(server.getContext()).toEqual({ items: 3 });
+        expect(await getCount()).toEqual(2);
+
+        expect(
+          await rp.get('http://localhost:3000/added', { json: true }),
+        ).toEqual('added');
+        expect(
+          await rp.get('http://localhost:3000/test-me', { json: true }),
+        ).toEqual('test');
+
+        expect(
+          server.getRequests({ path: '/added' }).map(request => request.path),
+        ).toEqual(['/added']);
+      });
+    });
+  });
+  describe('context API', () => {
+    it('can view, replace, merge and reset context', async () => {
+      const server = run({
+        default: {
+          context: { items: 0, user: 'guest' },
+          mocks: [
+            {
+              url: '/basket',
+              method: 'GET',
+              response: ({ context }) => context,
+            },
+          ],
+        },
+      });
+
+      await serverTest(server, async () => {
+        const getBasket = () =>
+          rp.get('http://localhost:3000/basket', { json: true });
+
+        expect(
+          await rp.get('http://localhost:3000/context', { json: true }),
+        ).toEqual({ items: 0, user: 'guest' });
+
+        await rp.patch('http://localhost:3000/context', {
+          body: { items: 3 },
+          json: true,
+        });
+        expect(await getBasket()).toEqual({ items: 3, user: 'guest' });
+
+        await rp.put('http://localhost:3000/context', {
+          body: { items: 1 },
+          json: true,
+        });
+        expect(await getBasket()).toEqual({ items: 1 });
+
+        await rp.delete('http://localhost:3000/context');
+        expect(await getBasket()).toEqual({ items: 0, user: 'guest' });
+      });
+    });
+
+    it('edits the context of a session', async () => {
+      const server = run({ default: { context: { items: 0 }, mocks: [] } });
+
+      await serverTest(server, async () => {
+        await rp.put('http://localhost:3000/context?session=worker-1', {
+          body: { items: 2, session: 'ignored' },
+          json: true,
+        });
+
+        expect(
+          await rp.get('http://localhost:3000/context', {
+            headers: { 'X-Mock-Session': 'worker-1' },
+            json: true,
+          }),
+        ).toEqual({ items: 2, session: 'ignored' });
+        expect(
+          await rp.get('http://localhost:3000/context', { json: true }),
+        ).toEqual({ items: 0 });
+      });
+    });
+
+    it('rejects context that is not an object', async () => {
+      const server = run({ default: [] });
+
+      await serverTest(server, async () => {
+        const { statusCode, body } = await rp.put(
+          'http://localhost:3000/context',
+          {
+            body: [1],
+            json: true,
+            simple: false,
+            resolveWithFullResponse: true,
+          },
+        );
+
+        expect(statusCode).toEqual(400);
+        expect(body).toEqual({ message: 'Context must be a JSON object' });
+      });
+    });
+  });
+  describe('context strategy', () => {
+    const getMocks = () => ({
+      default: {
+        context: { count: 0 },
+        mocks: [
+          {
+            url: '/count',
+            method: 'POST' as const,
+            response: ({ context, updateContext }: any) =>
+              updateContext({ count: context.count + 1 }),
+          },
+        ],
+      },
+      scenarios: {
+        test: { context: { loggedIn: true }, mocks: [] },
+      },
+    });
+
+    const modifyScenarios = (body: Record<string, any>) =>
+      rp.put('http://localhost:3000/modify-scenarios', {
+        body,
+        json: true,
+        simple: false,
+        resolveWithFullResponse: true,
+      });
+
+    it('resets context by default', async () => {
+      const server = run(getMocks());
+
+      await serverTest(server, async () => {
+        await rp.post('http://localhost:3000/count');
+        await modifyScenarios({ scenarios: ['test'] });
+
+        expect(server.getContext()).toEqual({ count: 0, loggedIn: true });
+      });
+    });
+
+    it('can keep or merge context using options', async () => {
+      const keepServer = run({
+        ...getMocks(),
+        options: { contextStrategy: 'keep' },
+      });
+
+      await serverTest(keepServer, async () => {
+        await rp.post('http://localhost:3000/count');
+        await modifyScenarios({ scenarios: ['test'] });
+
+        expect(keepServer.getContext()).toEqual({ count: 1 });
+      });
+
+      const mergeServer = run({
+        ...getMocks(),
+        options: { contextStrategy: 'merge' },
+      });
+
+      await serverTest(mergeServer, async () => {
+        await rp.post('http://localhost:3000/count');
+        await modifyScenarios({ scenarios: ['test'] });
+
+        expect(mergeServer.getContext()).toEqual({ count: 1, loggedIn: true });
+      });
+    });
+
+    it('only merges the context of newly selected scenarios', async () => {
+      const server = run({
+        default: [],
+        scenarios: {
+          basket: {
+            context: { items: 0 },
+            mocks: [
+              {
+                url: '/basket',
+                method: 'POST',
+                response: ({ context, updateContext }) =>
+                  updateContext({ items: context.items + 1 }),
+              },
+            ],
+          },
+          loggedIn: { context: { loggedIn: true }, mocks: [] },
+        },
+        options: { contextStrategy: 'merge' },
+      });
+
+      await serverTest(server, async () => {
+        await modifyScenarios({ scenarios: ['basket'] });
+        await rp.post('http://localhost:3000/basket');
+        await rp.post('http://localhost:3000/basket');
+        await modifyScenarios({ scenarios: ['basket', 'loggedIn'] });
+
+        expect(server.getContext()).toEqual({ items: 2, loggedIn: true });
+      });
+    });
+
+    it('can be chosen for each change', async () => {
+      const server = run(getMocks());
+
+      await serverTest(server, async () => {
+        await rp.post('http://localhost:3000/count');
+        await modifyScenarios({
+          scenarios: ['test'],
+          contextStrategy: 'merge',
+        });
+        expect(server.getContext()).toEqual({ count: 1, loggedIn: true });
+
+        await rp.put('http://localhost:3000/reset-scenarios', {
+          body: { contextStrategy: 'keep' },
+          json: true,
+        });
+        expect(server.getContext()).toEqual({ count: 1, loggedIn: true });
+
+        server.setScenarios([], undefined, 'reset');
+        expect(server.getContext()).toEqual({ count: 0 });
+
+        const { statusCode, body } = await modifyScenarios({
+          scenarios: [],
+          contextStrategy: 'forget',
+        });
+        expect(statusCode).toEqual(400);
+        expect(body).toEqual({
+          message:
+            '"contextStrategy" must be one of "reset", "merge" or "keep"',
+        });
+      });
+    });
+  });
+  describe('runFile', () => {
+    it('reloads mocks when the file changes', async () => {
+      const file = getTemporaryFile('mocks.js');
+      const writeMocks = (response: string, scenarioName = 'test') => {
+        // Jest keeps its own module registry
+        jest.resetModules();
+        fs.writeFileSync(
+          file,
+          `module.exports = ${JSON.stringify({
+            default: [{ url: '/test-me', method: 'GET', response: 'default' }],
+            scenarios: {
+              [scenarioName]: [{ url: '/test-me', method: 'GET', response }],
+            },
+          })};`,
+        );
+      };
+      writeMocks('first');
+
+      const server = runFile({ file });
+
+      await serverTest(server, async () => {
+        const get = () =>
+          rp.get('http://localhost:3000/test-me', { json: true });
+
+        server.setScenarios(['test']);
+        server.setContext({ basket: 3 });
+        expect(await get()).toEqual('first');
+
+        writeMocks('second');
+        await waitFor(async () => (await get()) === 'second');
+        expect(server.getSelectedScenarios()).toEqual(['test']);
+        expect(server.getContext()).toEqual({ basket: 3 });
+
+        jest.resetModules();
+        fs.writeFileSync(file, 'module.exports = {');
+        await waitFor(async () =>
+          (await rp.get('http://localhost:3000/')).includes(
+            'Failed to load mocks',
+          ),
+        );
+        expect(await get()).toEqual('second');
+
+        writeMocks('third', 'renamed');
+        await waitFor(async () => (await get()) === 'default');
+        expect(server.getSelectedScenarios()).toEqual([]);
+        expect(await rp.get('http://localhost:3000/')).not.toContain(
+          'Failed to load mocks',
+        );
+      });
+    });
+
+    it('reloads JSON and YAML mock files', async () => {
+      const file = getTemporaryFile('mocks.yaml');
+      const writeMocks = (response: string) => {
+        fs.writeFileSync(
+          file,
+          [
+            'default:',
+            '  - url: { regex: "^/test" }',
+            '    method: GET',
+            `    response: ${response}`,
+          ].join('\n'),
+        );
+      };
+      writeMocks('first');
+
+      const server = runFile({ file });
+
+      await serverTest(server, async () => {
+        const get = () =>
+          rp.get('http://localhost:3000/test-me', { json: true });
+
+        expect(await get()).toEqual('first');
+
+        writeMocks('second');
+        await waitFor(async () => (await get()) === 'second');
+      });
+    });
+
+    it('throws for missing files before listening', async () => {
+      const file = getTemporaryFile('missing.js');
+
+      expect(() => runFile({ file })).toThrow('Cannot find module');
+      await serverTest(run({ default: [] }), () => {});
+    });
+  });
+  describe('cli', () => {
+    it('starts a server and talks to it', async () => {
+      const file = getTemporaryFile('config.json');
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          default: {
+            context: { items: 0 },
+            mocks: [{ url: '/test-me', method: 'GET', response: 'default' }],
+          },
+          scenarios: {
+            one: {
+              group: 'test',
+              mocks: [{ url: '/test-me', method: 'GET', response: 'one' }],
+            },
+            two: [{ url: '/test-me', method: 'GET', response: 'two' }],
+          },
+          options: { port: 4000 },
+        }),
+      );
+
+      const server = (await cli([
+        file,
+        '--port',
+        '5000',
+        '--scenarios=one',
+      ])) as MockServer;
+      const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+      await serverTest(server, async () => {
+        const url = ['--url', 'http://localhost:5000'];
+        const getLogs = () => log.mock.calls.map(([message]) => message);
+
+        try {
+          log.mockClear();
+          await cli(['list', ...url]);
+          expect(getLogs()).toEqual(['* one (test)', '  two']);
+
+          await cli(['set', 'two', ...url]);
+          expect(
+            await rp.get('http://localhost:5000/test-me', { json: true }),
+          ).toEqual('two');
+
+          await cli(['reset', ...url]);
+          expect(server.getSelectedScenarios()).toEqual([]);
+
+          log.mockClear();
+          await cli(['context', ...url]);
+          expect(JSON.parse(getLogs()[0])).toEqual({ items: 0 });
+
+          await expect(cli(['set', 'three', ...url])).rejects.toThrow(
+            'Scenario "three" does not exist',
+          );
+        } finally {
+          log.mockRestore();
+        }
+      });
+    });
+
+    it('reads options from YAML and talks to custom API paths', async () => {
+      const file = getTemporaryFile('config.yaml');
+      fs.writeFileSync(
+        file,
+        [
+          'default:',
+          '  context: { items: 0 }',
+          '  mocks:',
+          '    - url: { regex: ^/users/\\d+$ }',
+          '      method: GET',
+          '      response: default',
+          'scenarios:',
+          '  one:',
+          '    - url: /test-me',
+          '      method: GET',
+          '      response: one',
+          'options:',
+          '  port: 5000',
+          '  modifyScenariosPath: /api/scenarios',
+          '  resetScenariosPath: /api/reset',
+          '  contextPath: /api/context',
+        ].join('\n'),
+      );
+
+      const server = (await cli([file])) as MockServer;
+      const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+      await serverTest(server, async () => {
+        const url = ['--url', 'http://localhost:5000'];
+        const getLogs = () => log.mock.calls.map(([message]) => message);
+
+        try {
+          expect(
+            await rp.get('http://localhost:5000/users/1', { json: true }),
+          ).toEqual('default');
+
+          await cli([
+            'set',
+            'one',
+            ...url,
+            '--modify-scenarios-path',
+            '/api/scenarios',
+          ]);
+          log.mockClear();
+          await cli(['list', ...url, '--modify-scenarios-path=/api/scenarios']);
+          expect(getLogs()).toEqual(['* one']);
+
+          await cli(['reset', ...url, '--reset-scenarios-path=/api/reset']);
+          expect(server.getSelectedScenarios()).toEqual([]);
+
+          log.mockClear();
+          await cli(['context', ...url, '--context-path=/api/context']);
+          expect(JSON.parse(getLogs()[0])).toEqual({ items: 0 });
+        } finally {
+          log.mockRestore();
+        }
+      });
+    });
+
+    it('converts RegExp urls in JSON config', async () => {
+      const file = getTemporaryFile('config.json');
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          default: [
+            { url: { regex: '^/users/\\d+$' }, method: 'GET', response: 'hi' },
+          ],
+        }),
+      );
+
+      const server = (await cli([file])) as MockServer;
+
+      await serverTest(server, async () => {
+        expect(
+          await rp.get('http://localhost:3000/users/1', { json: true }),
+        ).toEqual('hi');
+      });
+    });
+  });
+  describe('mock files', () => {
+    it('loads YAML mocks that can be mixed with code', async () => {
+      const file = getTemporaryFile('mocks.yaml');
+      fs.writeFileSync(
+        file,
+        [
+          'default:',
+          '  context:',
+          '    user: guest',
+          '  mocks:',
+          '    - url:',
+          '        regex: ^/users/\\d+$',
+          '      method: GET',
+          '      response:',
+          '        name: Alice',
+          '    - url: /graphql',
+          '      method: GRAPHQL',
+          '      operations:',
+          '        - type: query',
+          '          name: User',
+          '          response:',
+          '            data:',
+          '              user: Alice',
+          'scenarios:',
+          '  missing:',
+          '    group: users',
+          '    mocks:',
+          '      - url:',
+          '          regex: ^/users/\\d+$',
+          '        method: GET',
+          '        responseCode: 404',
+        ].join('\n'),
+      );
+
+      const mocks = loadMockFile(file);
+      const server = run({
+        default: mocks.default,
+        scenarios: {
+          ...mocks.scenarios,
+          slow: [
+            {
+              url: /^\/users\/\d+$/,
+              method: 'GET',
+              response: { name: 'Slow Alice' },
+            },
+          ],
+        },
+      });
+
+      await serverTest(server, async () => {
+        expect(
+          await rp.get('http://localhost:3000/users/123', { json: true }),
+        ).toEqual({ name: 'Alice' });
+        expect(
+          await rp.get('http://localhost:3000/graphql?query=query User { a }', {
+            json: true,
+          }),
+        ).toEqual({ data: { user: 'Alice' } });
+        expect(server.getContext()).toEqual({ user: 'guest' });
+
+        server.setScenarios(['missing']);
+        const { statusCode } = await rp.get('http://localhost:3000/users/1', {
+          simple: false,
+          resolveWithFullResponse: true,
+        });
+        expect(statusCode).toEqual(404);
+
+        server.setScenarios(['slow']);
+        expect(
+          await rp.get('http://localhost:3000/users/1', { json: true }),
+        ).toEqual({ name: 'Slow Alice' });
+      });
+    });
+
+    it('reports every problem with the file', () => {
+      const file = getTemporaryFile('mocks.json');
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          default: [{ url: { regex: '(' }, method: 'GET' }],
+          scenarios: {
+            test: {
+              mocks: [
+                { url: '/a', method: 'FETCH' },
+                {
+                  url: '/graphql',
+                  method: 'GRAPHQL',
+                  operations: [{ type: 'query', responseCode: '200' }],
+                },
+              ],
+            },
+          },
+        }),
+      );
+
+      expect(() => loadMockFile(file)).toThrow(
+        [
+          `Invalid mocks in "${file}":`,
+          '- "default[0].url" must be a string or an object with a valid "regex"',
+          '- "scenarios.test.mocks[0].method" must be one of "GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS", "ALL", "*", "GRAPHQL", "WEBSOCKET"',
+          '- "scenarios.test.mocks[1].operations[0].name" must be a non-empty string',
+          '- "scenarios.test.mocks[1].operations[0].responseCode" must be an HTTP status code',
+        ].join('\n'),
+      );
+    });
+  });
+  describe('HAR mocks', () => {
+    const getEntry = (
+      method: string,
+      url: string,
+      responseBody: any,
+      postData?: any,
+    ) => ({
+      request: {
+        method,
+        url,
+        headers: [{ name: ':authority', value: 'example.com' }],
+        ...(postData && {
+          postData: {
+            mimeType: 'application/json',
+            text: JSON.stringify(postData),
+          },
+        }),
+      },
+      response: {
+        status: 200,
+        headers: [
+          { name: ':status', value: '200' },
+          { name: 'Content-Type', value: 'application/json' },
+          { name: 'Content-Encoding', value: 'br' },
+          { name: 'Set-Cookie', value: 'session=abc' },
+          { name: 'X-Request-Id', value: 'abc' },
+          { name: 'X-Version', value: '2' },
+        ],
+        content: {
+          mimeType: 'application/json',
+          text: JSON.stringify(responseBody),
+        },
+      },
+    });
+
+    const har = {
+      log: {
+        entries: [
+          getEntry('GET', 'https://example.com/api/items?page=1', ['a']),
+          getEntry('GET', 'https://example.com/api/items?page=2', ['b']),
+          getEntry('GET', 'https://example.com/api/basket', ['x']),
+          getEntry('GET', 'https://example.com/api/basket', ['y']),
+          getEntry(
+            'POST',
+            'https://example.com/graphql',
+            { data: { user: 'Alice' } },
+            { query: 'query User { user }' },
+          ),
+          getEntry(
+            'POST',
+            'https://example.com/graphql',
+            { data: { basket: [] } },
+            { query: 'query Basket { basket }' },
+          ),
+        ],
+      },
+    };
+
+    it('converts entries into mocks', () => {
+      expect(getHarMocks(har, { ignoreHeaders: ['X-Request-Id'] })).toEqual({
+        default: [
+          {
+            url: '/api/items',
+            method: 'GET',
+            match: { query: { page: '1' } },
+            response: ['a'],
+            responseHeaders: { 'x-version': '2' },
+          },
+          {
+            url: '/api/items',
+            method: 'GET',
+            match: { query: { page: '2' } },
+            response: ['b'],
+            responseHeaders: { 'x-version': '2' },
+          },
+          {
+            url: '/api/basket',
+            method: 'GET',
+            response: ['y'],
+            responseHeaders: { 'x-version': '2' },
+          },
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            operations: [
+              {
+                type: 'query',
+                name: 'User',
+                response: { data: { user: 'Alice' } },
+                responseHeaders: { 'x-version': '2' },
+              },
+              {
+                type: 'query',
+                name: 'Basket',
+                response: { data: { basket: [] } },
+                responseHeaders: { 'x-version': '2' },
+              },
+            ],
+          },
+        ],
+        scenarios: {},
+      });
+    });
+
+    it('can keep the first call or create a named scenario', () => {
+      const { default: defaultMocks, scenarios } = getHarMocks(har, {
+        scenario: 'recorded',
+        duplicates: 'first',
+      });
+
+      expect(defaultMocks).toEqual([]);
+      expect(scenarios.recorded).toContainEqual({
+        url: '/api/basket',
+        method: 'GET',
+        response: ['x'],
+        responseHeaders: { 'x-request-id': 'abc', 'x-version': '2' },
+      });
+    });
+
+    it('can turn repeated calls into sequences', async () => {
+      const server = run(getHarMocks(har, { duplicates: 'sequence' }));
+
+      await serverTest(server, async () => {
+        const get = (url: string) =>
+          rp.get(`http://localhost:3000${url}`, { json: true });
+
+        expect(await get('/api/basket')).toEqual(['x']);
+        expect(await get('/api/basket')).toEqual(['y']);
+        expect(await get('/api/items?page=1')).toEqual(['a']);
+        expect(await get('/api/items?page=2')).toEqual(['b']);
+      });
+    });
+
+    it('serves base64 content as binary', async () => {
+      const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0x00]);
+      const server = run(
+        getHarMocks({
+          log: {
+            entries: [
+              {
+                request: {
+                  method: 'GET',
+                  url: 'https://example.com/logo.png',
+                  headers: [],
+                },
+                response: {
+                  status: 200,
+                  headers: [{ name: 'Content-Type', value: 'image/png' }],
+                  content: {
+                    mimeType: 'image/png',
+                    text: image.toString('base64'),
+                    encoding: 'base64',
+                  },
+                },
+              },
+            ],
+          },
+        }),
+      );
+
+      await serverTest(server, async () => {
+        const response = await rp.get('http://localhost:3000/logo.png', {
+          encoding: null,
+          resolveWithFullResponse: true,
+        });
+
+        expect(response.headers['content-type']).toEqual('image/png');
+        expect(response.body).toEqual(image);
+      });
+    });
+  });
+  describe('validation', () => {
+    it('reports every problem at once', () => {
+      const circular: Record<string, any> = {};
+      circular.self = circular;
+
+      expect(() =>
+        run({
+          default: [
+            { url: 'api/test-me', method: 'GET' },
+            { url: '/test-me', method: 'FETCH' } as any,
+            {
+              url: '/graphql',
+              method: 'GRAPHQL',
+              operations: [
+                { type: 'query', name: 'User' },
+                { type: 'query', name: 'User' },
+              ],
+            },
+          ],
+          scenarios: {
+            broken: {
+              group: '',
+              mocks: [
+                {
+                  url: '/format',
+                  method: 'GET',
+                  response: { items: [{ format: Symbol('date') }] },
+                },
+                { url: '/circular', method: 'GET', response: circular },
+              ],
+            },
+          },
+          options: { port: -1, uiPath: 'ui' },
+        }),
+      ).toThrow(
+        [
+          'Invalid mock configuration:',
+          '- "default[0].url" must start with "/", received "api/test-me"',
+          '- "default[1].method" must be one of "GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS", "ALL", "*", "GRAPHQL", "WEBSOCKET"',
+          '- "default[2].operations[1]" has the same type and name as another operation, "query User"',
+          '- "scenarios.broken.mocks[0].response" cannot be sent as JSON, because it contains a symbol at "items[0].format"',
+          '- "scenarios.broken.mocks[1].response" cannot be sent as JSON, because it contains a circular reference at "self"',
+          '- "scenarios.broken.group" must be a non-empty string',
+          '- "options.port" must be a whole number from 0 to 65535',
+          '- "options.uiPath" must be a string starting with "/"',
+        ].join('\n'),
+      );
+    });
+
+    it('checks mocks that are added later', async () => {
+      const server = run({ default: [] });
+
+      await serverTest(server, () => {
+        expect(() =>
+          server.addMocks([
+            { url: '/test-me', method: 'GET', responseCode: 0 },
+          ]),
+        ).toThrow('"mocks[0].responseCode" must be an HTTP status code');
+      });
+    });
+  });
+  describe('HTTP methods', () => {
+    it('answers HEAD requests from HEAD mocks before GET mocks', async () => {
+      const server = run({
+        default: [
+          { url: '/files/report.pdf', method: 'GET', response: { id: 1 } },
+          { url: '/files/missing.pdf', method: 'GET', response: { id: 2 } },
+          { url: '/files/missing.pdf', method: 'HEAD', responseCode: 404 },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const [existing, missing] = await Promise.all(
+          ['report', 'missing'].map(name =>
+            rp.head(`http://localhost:3000/files/${name}.pdf`, {
+              resolveWithFullResponse: true,
+              simple: false,
+            }),
+          ),
+        );
+
+        expect(existing.statusCode).toEqual(200);
+        expect(missing.statusCode).toEqual(404);
+      });
+    });
+
+    it('lets OPTIONS mocks replace the CORS preflight response', async () => {
+      const server = run({
+        default: [
+          { url: '/api/open', method: 'PUT', response: {} },
+          { url: '/api/closed', method: 'PUT', response: {} },
+          { url: '/api/closed', method: 'OPTIONS', responseCode: 403 },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const [open, closed] = await Promise.all(
+          ['open', 'closed'].map(name =>
+            rp(`http://localhost:3000/api/${name}`, {
+              method: 'OPTIONS',
+              headers: {
+                Origin: 'http://example.com',
+                'Access-Control-Request-Method': 'PUT',
+              },
+              resolveWithFullResponse: true,
+              simple: false,
+            }),
+          ),
+        );
+
+        expect(open.statusCode).toEqual(204);
+        expect(open.headers['access-control-allow-methods']).toContain('PUT');
+        expect(closed.statusCode).toEqual(403);
+        expect(closed.headers['access-control-allow-origin']).toBeUndefined();
+      });
+    });
+
+    it('uses ALL mocks when no other method matches', async () => {
+      const server = run({
+        default: [
+          { url: '/api/:name', method: '*', response: { handler: 'any' } },
+          { url: '/api/:name', method: 'GET', response: { handler: 'get' } },
+        ],
+        scenarios: {
+          unavailable: [
+            { url: '/api/:name', method: 'ALL', responseCode: 503 },
+          ],
+        },
+      });
+
+      await serverTest(server, async () => {
+        expect(
+          await rp.get('http://localhost:3000/api/test', { json: true }),
+        ).toEqual({ handler: 'get' });
+        expect(
+          await rp.delete('http://localhost:3000/api/test', { json: true }),
+        ).toEqual({ handler: 'any' });
+
+        const preflight = await rp('http://localhost:3000/api/test', {
+          method: 'OPTIONS',
+          headers: {
+            Origin: 'http://example.com',
+            'Access-Control-Request-Method': 'DELETE',
+          },
+          resolveWithFullResponse: true,
+        });
+        expect(preflight.statusCode).toEqual(204);
+
+        server.setScenarios(['unavailable']);
+        const response = await rp.post('http://localhost:3000/api/test', {
+          resolveWithFullResponse: true,
+          simple: false,
+        });
+        expect(response.statusCode).toEqual(503);
+      });
+    });
+  });
+  describe('file responses', () => {
+    it('sends files from disk, reading them on every request', async () => {
+      const file = getTemporaryFile('report.csv');
+      fs.writeFileSync(file, 'id,name\n1,Alice\n');
+
+      const server = run({
+        default: [
+          {
+            url: '/report',
+            method: 'GET',
+            response: { __file: { path: file, download: true } },
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const first = await rp.get('http://localhost:3000/report', {
+          resolveWithFullResponse: true,
+        });
+        expect(first.body).toEqual('id,name\n1,Alice\n');
+        expect(first.headers['content-type']).toContain('text/csv');
+        expect(first.headers['content-disposition']).toEqual(
+          'attachment; filename="report.csv"',
+        );
+
+        fs.writeFileSync(file, 'id,name\n2,Bob\n');
+        expect(await rp.get('http://localhost:3000/report')).toEqual(
+          'id,name\n2,Bob\n',
+        );
+      });
+    });
+
+    it('supports Range requests', async () => {
+      const file = getTemporaryFile('video.mp4');
+      fs.writeFileSync(file, '0123456789');
+
+      const server = run({
+        default: [
+          {
+            url: '/video',
+            method: 'GET',
+            response: { __file: { path: file } },
+          },
+          {
+            url: '/buffer',
+            method: 'GET',
+            response: {
+              __file: {
+                content: Buffer.from('abcdefghij'),
+                contentType: 'png',
+              },
+            },
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const [video, buffer] = await Promise.all(
+          ['video', 'buffer'].map(name =>
+            rp.get(`http://localhost:3000/${name}`, {
+              headers: { Range: 'bytes=2-4' },
+              resolveWithFullResponse: true,
+            }),
+          ),
+        );
+
+        expect(video.statusCode).toEqual(206);
+        expect(video.body).toEqual('234');
+        expect(video.headers['content-type']).toEqual('video/mp4');
+        expect(video.headers['content-range']).toEqual('bytes 2-4/10');
+        expect(buffer.statusCode).toEqual(206);
+        expect(buffer.body).toEqual('cde');
+        expect(buffer.headers['content-type']).toEqual('image/png');
+      });
+    });
+
+    it('creates a new stream for every request', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/stream',
+            method: 'GET',
+            response: {
+              __file: { content: () => Readable.from(['abc', 'def']) },
+            },
+          },
+          {
+            url: '/broken',
+            method: 'GET',
+            response: {
+              __file: {
+                content: () =>
+                  new Readable({
+                    read() {
+                      this.destroy(new Error('Broken'));
+                    },
+                  }),
+              },
+            },
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const get = (url: string) =>
+          rp.get(`http://localhost:3000${url}`, {
+            resolveWithFullResponse: true,
+            simple: false,
+          });
+
+        expect((await get('/stream')).body).toEqual('abcdef');
+        expect((await get('/stream')).body).toEqual('abcdef');
+        expect((await get('/broken')).statusCode).toEqual(500);
+      });
+    });
+
+    it('returns a 404 for files that do not exist', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/missing',
+            method: 'GET',
+            response: { __file: { path: getTemporaryFile('missing.pdf') } },
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const response = await rp.get('http://localhost:3000/missing', {
+          resolveWithFullResponse: true,
+          simple: false,
+        });
+
+        expect(response.statusCode).toEqual(404);
+      });
+    });
+  });
+  describe('placeholders', () => {
+    it('fills in static HTTP responses and headers from the request', async () => {
+      const server = run({
+        default: {
+          context: { user: { name: 'Alice' } },
+          mocks: [
+            {
+              url: '/api/users/:id',
+              method: 'POST',
+              responseHeaders: { 'X-User-Id': '{{params.id}}' },
+              response: {
+                id: '{{params.id}}',
+                page: '{{query.page}}',
+                count: '{{body.items.length}}',
+                email: 'Email: {{body.email}}',
+                firstItem: '{{body.items[0]}}',
+                updatedBy: '{{context.user.name}}',
+                missing: 'Missing: {{body.missing}}',
+              },
+            },
+          ],
+        },
+      });
+
+      await serverTest(server, async () => {
+        const response = await rp.post(
+          'http://localhost:3000/api/users/42?page=2',
+          {
+            body: { email: 'a@example.com', items: [{ id: 1 }, { id: 2 }] },
+            json: true,
+            resolveWithFullResponse: true,
+          },
+        );
+
+        expect(response.headers['x-user-id']).toEqual('42');
+        expect(response.body).toEqual({
+          id: '42',
+          page: '2',
+          count: 2,
+          email: 'Email: a@example.com',
+          firstItem: { id: 1 },
+          updatedBy: 'Alice',
+          missing: 'Missing: ',
+        });
+      });
+    });
+
+    it('fills in GraphQL responses from variables', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            operations: [
+              {
+                type: 'query',
+                name: 'User',
+                response: { data: { user: { id: '{{variables.id}}' } } },
+              },
+            ],
+          },
+        ],
+      });
+
+      await serverTest(server, async () => {
+        const response = await rp.post('http://localhost:3000/graphql', {
+          body: {
+            query: 'query User($id: ID!) { user(id: $id) { id } }',
+            variables: { id: 'abc' },
+          },
+          json: true,
+        });
+
+        expect(response).toEqual({ data: { user: { id: 'abc' } } });
+      });
+    });
+  });
+  describe('fake data', () => {
+    const getMocks = () => ({
+      default: [
+        {
+          url: '/api/users',
+          method: 'GET' as const,
+          response: ({ fake }: { fake: Fake }) =>
+            fake.array(2, () => ({
+              id: fake.uuid(),
+              name: fake.name(),
+              email: fake.email(),
+            })),
+        },
+        {
+          url: '/api/products',
+          method: 'GET' as const,
+          response: {
+            __array: {
+              count: '{{query.limit}}',
+              item: { id: '{{index}}', price: '{{fake.price}}' },
+            },
+          },
+        },
+      ],
+      scenarios: {
+        reseeded: { seed: 'other', mocks: [] },
+      },
+    });
+
+    it('generates the same data for the same seed and request', async () => {
+      const getResponses = async (seed: string) => {
+        const server = run({ ...getMocks(), options: { seed } });
+        let responses: any[] = [];
+
+        await serverTest(server, async () => {
+          responses = await Promise.all([
+            rp.get('http://localhost:3000/api/users', { json: true }),
+            rp.get('http://localhost:3000/api/users', { json: true }),
+            rp.get('http://localhost:3000/api/products?limit=2', {
+              json: true,
+            }),
+          ]);
+        });
+
+        return responses;
+      };
+
+      const [users, repeatedUsers, products] = await getResponses('a');
+      expect(users).toHaveLength(2);
+      expect(users[0].id).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+      );
+      expect(users[0].email).toMatch(/^[a-z]+\.[a-z]+@example\.(com|org|net)$/);
+      expect(users[0]).not.toEqual(users[1]);
+      expect(repeatedUsers).toEqual(users);
+      expect(products).toEqual([
+        { id: 0, price: expect.any(Number) },
+        { id: 1, price: expect.any(Number) },
+      ]);
+
+      expect(await getResponses('a')).toEqual([users, users, products]);
+      expect((await getResponses('b'))[0]).not.toEqual(users);
+    });
+
+    it('keeps array counts from requests to a sensible size', async () => {
+      const server = run(getMocks());
+
+      await serverTest(server, async () => {
+        const getProducts = (limit: string) =>
+          rp.get(`http://localhost:3000/api/products?limit=${limit}`, {
+            json: true,
+          });
+
+        expect(await getProducts('4294967296')).toHaveLength(1000);
+        expect(await getProducts('2.5')).toHaveLength(2);
+        expect(await getProducts('-3')).toEqual([]);
+        expect(await getProducts('many')).toEqual([]);
+      });
+    });
+
+    it('uses the seed of the selected scenario', async () => {
+      const server = run(getMocks());
+
+      await serverTest(server, async () => {
+        const getUsers = () =>
+          rp.get('http://localhost:3000/api/users', { json: true });
+
+        const users = await getUsers();
+        server.setScenarios(['reseeded']);
+        const reseededUsers = await getUsers();
+        server.resetScenarios();
+
+        expect(reseededUsers).not.toEqual(users);
+        expect(await getUsers()).toEqual(users);
+      });
+    });
+  });
+  describe('network profiles', () => {
+    it('adds latency to delay ranges and throttles the body', async () => {
+      const body = 'x'.repeat(300);
+      const server = run({
+        default: [
+          {
+            url: '/test-me',
+            method: 'GET',
+            responseHeaders: { 'Content-Type': 'text/plain' },
+            responseDelay: { min: 100, max: 150 },
+            response: body,
+          },
+          {
+            url: '/file',
+            method: 'GET',
+            response: { __file: { content: Buffer.from(body) } },
+          },
+        ],
+        options: {
+          networkProfile: 'slow',
+          networkProfiles: { slow: { latency: 100, bandwidth: 1000 } },
+        },
+      });
+
+      await serverTest(server, async () => {
+        const startTime = getStartTime();
+        const response = await rp.get('http://localhost:3000/test-me');
+        const duration = getDuration(startTime);
+
+        expect(response).toEqual(body);
+        // 100ms of latency, 100ms of delay and 200ms between the 3 chunks
+        expect(duration).toBeGreaterThanOrEqual(400);
+        expect(server.getNetworkProfile()).toEqual('slow');
+
+        const fileStartTime = getStartTime();
+        expect(await rp.get('http://localhost:3000/file')).toEqual(body);
+        expect(getDuration(fileStartTime)).toBeGreaterThanOrEqual(300);
+      });
+    });
+
+    it('only reads piped streams as fast as they are sent', async () => {
+      let reads = 0;
+      const server = run({
+        default: [
+          {
+            url: '/file',
+            method: 'GET',
+            response: {
+              __file: {
+                content: () =>
+                  new Readable({
+                    highWaterMark: 1000,
+                    read() {
+                      reads++;
+                      this.push(reads <= 10 ? 'x'.repeat(1000) : null);
+                    },
+                  }),
+              },
+            },
+          },
+        ],
+        options: {
+          networkProfile: 'fast',
+          networkProfiles: { fast: { bandwidth: 10000 } },
+        },
+      });
+
+      await serverTest(server, async () => {
+        const response = rp.get('http://localhost:3000/file');
+        await new Promise(resolve => setTimeout(resolve, 300));
+
+        expect(reads).toBeLessThan(8);
+        expect(await response).toEqual('x'.repeat(10000));
+      });
+    });
+
+    it('drops connections when offline', async () => {
+      const server = run({
+        default: [
+          { url: '/test-me', method: 'GET', response: {} },
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            schema: 'type Query { name: String }',
+          },
+        ],
+        options: { proxy: 'http://localhost:4000' },
+      });
+
+      await proxyTest(server, async () => {
+        server.setNetworkProfile('offline');
+        await expect(rp.get('http://localhost:3000/test-me')).rejects.toThrow(
+          'socket hang up',
+        );
+        await expect(rp.get('http://localhost:3000/proxied')).rejects.toThrow(
+          'socket hang up',
+        );
+        await expect(
+          rp.post('http://localhost:3000/graphql', {
+            body: { query: '{ name }' },
+            json: true,
+          }),
+        ).rejects.toThrow('socket hang up');
+
+        server.setNetworkProfile();
+        expect(await rp.get('http://localhost:3000/test-me')).toEqual('{}');
+        expect(() => server.setNetworkProfile('5G')).toThrow(
+          '"profile" must be one of "3G", "slow 3G", "flaky wifi", "offline" or null',
+        );
+      });
+    });
+
+    it('can be selected through the API and the UI', async () => {
+      const server = run({ default: [] });
+
+      await serverTest(server, async () => {
+        const getNetwork = () =>
+          rp.get('http://localhost:3000/network', { json: true });
+
+        expect(await getNetwork()).toEqual({
+          profile: null,
+          profiles: ['3G', 'slow 3G', 'flaky wifi', 'offline'],
+        });
+
+        const response = await rp.put('http://localhost:3000/network', {
+          body: { profile: '5G' },
+          json: true,
+          resolveWithFullResponse: true,
+          simple: false,
+        });
+        expect(response.statusCode).toEqual(400);
+
+        await rp.put('http://localhost:3000/network', {
+          body: { profile: '3G' },
+          json: true,
+        });
+        expect((await getNetwork()).profile).toEqual('3G');
+
+        const page = await rp.post('http://localhost:3000/', {
+          form: { button: 'network', networkProfile: 'slow 3G' },
+        });
+        expect(page).toContain('<option value="slow 3G" selected>');
+        expect((await getNetwork()).profile).toEqual('slow 3G');
+      });
+    });
+  });
+  describe('faults', () => {
+    const getServer = () =>
+      run({
+        default: [
+          { url: '/api/users/:id', method: 'GET', response: { id: 1 } },
+          { url: '/api/basket', method: 'GET', response: { items: [] } },
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            operations: [
+              {
+                type: 'query',
+                name: 'Basket',
+                response: { data: { basket: { total: 10 } } },
+              },
+            ],
+          },
+        ],
+        options: {
+          faults: {
+            unavailable: {
+              type: 'error',
+              url: '/api/users/:id',
+              responseCode: 503,
+              response: { message: 'Try again later' },
+              enabled: true,
+            },
+            reset: { type: 'reset', url: /^\/api\/basket/ },
+            malformed: { type: 'malformed', url: '/api/basket' },
+            sometimes: { type: 'error', url: '/api/basket', rate: 50 },
+            basketErrors: {
+              type: 'graphQlErrors',
+              operationName: 'Basket',
+              errors: [{ message: 'No total' }],
+              data: { basket: { total: null } },
+            },
+          },
+        },
+      });
+
+    it('applies enabled faults to matching requests', async () => {
+      const server = getServer();
+
+      await serverTest(server, async () => {
+        const user = await rp.get('http://localhost:3000/api/users/1', {
+          json: true,
+          resolveWithFullResponse: true,
+          simple: false,
+        });
+        expect(user.statusCode).toEqual(503);
+        expect(user.body).toEqual({ message: 'Try again later' });
+        expect(await rp.get('http://localhost:3000/api/basket')).toEqual(
+          '{"items":[]}',
+        );
+
+        server.setFaults(['reset']);
+        await expect(
+          rp.get('http://localhost:3000/api/basket'),
+        ).rejects.toThrow();
+
+        server.setFaults(['malformed']);
+        expect(await rp.get('http://localhost:3000/api/basket')).toEqual(
+          '{"item',
+        );
+
+        server.setFaults(['basketErrors']);
+        expect(
+          await rp.post('http://localhost:3000/graphql', {
+            body: { query: 'query Basket { basket { total } }' },
+            json: true,
+          }),
+        ).toEqual({
+          data: { basket: { total: null } },
+          errors: [{ message: 'No total' }],
+        });
+      });
+    });
+
+    it('applies to schema responses and proxied requests', async () => {
+      const server = run({
+        default: [
+          {
+            url: '/graphql',
+            method: 'GRAPHQL',
+            schema: 'type Query { name: String }',
+          },
+        ],
+        options: {
+          proxy: 'http://localhost:4000',
+          faults: {
+            schemaErrors: { type: 'graphQlErrors', operationName: 'Name' },
+            everything: { type: 'error', responseCode: 503 },
+          },
+        },
+      });
+
+      await proxyTest(server, async () => {
+        const getName = () =>
+          rp.post('http://localhost:3000/graphql', {
+            body: { query: 'query Name { name }' },
+            json: true,
+            resolveWithFullResponse: true,
+            simple: false,
+          });
+        const getProxied = () =>
+          rp.get('http://localhost:3000/proxied', {
+            resolveWithFullResponse: true,
+            simple: false,
+          });
+
+        server.setFaults(['schemaErrors']);
+        expect((await getName()).body).toEqual({
+          data: { name: expect.any(String) },
+          errors: [{ message: 'Injected fault' }],
+        });
+        expect((await getProxied()).statusCode).toEqual(200);
+
+        server.setFaults(['everything']);
+        expect((await getName()).statusCode).toEqual(503);
+        expect((await getProxied()).statusCode).toEqual(503);
+      });
+    });
+
+    it('fails the same requests each time for the same seed', async () => {
+      const server = getServer();
+
+      await serverTest(server, async () => {
+        const getStatusCodes = async () => {
+          server.setFaults(['sometimes']);
+          const statusCodes = [];
+          for (let index = 0; index < 10; index++) {
+            const response = await rp.get('http://localhost:3000/api/basket', {
+              resolveWithFullResponse: true,
+              simple: false,
+            });
+            statusCodes.push(response.statusCode);
+          }
+
+          return statusCodes;
+        };
+
+        const statusCodes = await getStatusCodes();
+        expect(statusCodes).toContain(200);
+        expect(statusCodes).toContain(500);
+        expect(await getStatusCodes()).toEqual(statusCodes);
+      });
+    });
+
+    it('can be toggled through the API and the UI', async () => {
+      const server = getServer();
+
+      await serverTest(server, async () => {
+        const getFaults = () =>
+          rp.get('http://localhost:3000/faults', { json: true });
+
+        expect((await getFaults())[0]).toEqual({
+          name: 'unavailable',
+          type: 'error',
+          enabled: true,
+        });
+
+        const response = await rp.put('http://localhost:3000/faults', {
+          body: { faults: ['missing'] },
+          json: true,
+          resolveWithFullResponse: true,
+          simple: false,
+        });
+        expect(response.statusCode).toEqual(400);
+        expect(response.body).toEqual({
+          message: 'Fault "missing" does not exist',
+        });
+
+        await rp.put('http://localhost:3000/faults', {
+          body: { faults: ['reset', 'malformed'] },
+          json: true,
+        });
+        expect(server.getEnabledFaults()).toEqual(['reset', 'malformed']);
+
+        const page = await rp.post('http://localhost:3000/', {
+          form: { button: 'faults', faults: 'malformed' },
+        });
+        expect(page).toContain('value="malformed"\n');
+        expect(server.getEnabledFaults()).toEqual(['malformed']);
+      });
+    });
+  });
+});
+
+function getStartTime() {
+  return process.hrtime();
+}
+
+function getDuration(startTime: [number, number]) {
+  const hrend = process.hrtime(startTime);
+  return hrend[0] * 1000 + hrend[1] / 1000000;
+}
+
+function serverTest({ server, close }: MockServer, fn: Function) {
+  return new Promise((resolve, reject) => {
+    server.on('listening', async () => {
+      try {
+        await fn();
+        await close();
+        resolve();
+      } catch (error) {
+        await close();
+        reject(error);
+      }
+    });
+  });
+}
+
+function proxyTest(server: MockServer, fn: Function) {
+  const backend = express()
+    .use(express.text({ type: () => true }))
+    .all('*', ({ method, originalUrl, headers, body }, res) => {
+      res.json({
+        method,
+        url: originalUrl,
+        headers,
+        body: typeof body === 'string' ? body : undefined,
+      });
+    })
+    .listen(4000);
+
+  return serverTest(server, fn).finally(
+    () => new Promise(resolve => backend.close(resolve)),
+  );
+}
+
+function getTemporaryFile(fileName: string) {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'data-mocks-'));
+
+  return path.join(directory, fileName);
+}
+
+function getWebSocketMessages(
+  url: string,
+  protocol: string | undefined,
+  messagesToSend: Array<Record<string, any> | string>,
+  numberOfMessages: number,
+) {
+  return new Promise<any[]>((resolve, reject) => {
+    const messages: any[] = [];
+    const socket = new WebSocket(url, protocol);
+
+    socket.on('open', () => {
+      messagesToSend.forEach(message => {
+        socket.send(
+          typeof message === 'string' ? message : JSON.stringify(message),
+        );
+      });
+    });
+    socket.on('message', data => {
+      const message = String(data);
+      try {
+        messages.push(JSON.parse(message));
+      } catch (error) {
+        messages.push(message);
+      }
+
+      if (messages.length === numberOfMessages) {
+        socket.close();
+        resolve(messages);
+      }
+    });
+    socket.on('error', reject);
+  });
+}
+
+async function waitFor(condition: () => Promise<boolean>, timeout = 2000) {
+  const startTime = Date.now();
+  while (!(await condition())) {
+    if (Date.now() - startTime > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
 }
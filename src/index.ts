@@ -4,127 +4,597 @@ import nunjucks from 'nunjucks';
 import path from 'path';
 import { transform } from 'server-with-kill';
 
-import { modifyScenarios, resetScenarios } from './apis';
+import {
+  getScenariosError,
+  getScenarios,
+  modifyScenarios,
+  resetScenarios,
+  getRequests,
+  clearRequests,
+  getSequences,
+  resetSequences,
+  getCurrentContext,
+  replaceContext,
+  mergeContext,
+  resetContext,
+  getNetworkProfileError,
+  getNetwork,
+  updateNetwork,
+  getFaultsError,
+  getFaults,
+  modifyFaults,
+} from './apis';
+import { createFaults, setFaults, findFault, sendFault } from './fault';
 import { getGraphQlMocks, applyGraphQlRoutes } from './graph-ql';
+import { getSubscriptionRoutes } from './graph-ql-subscriptions';
+import { getHarMocks } from './har';
 import { getHttpMocks, applyHttpRoutes } from './http';
-import { Mock, Options, Scenarios, Default, Context } from './types';
+import { createJournal } from './journal';
+import { loadMockFile } from './mock-file';
+import { networkProfiles, createNetworkHandler } from './network';
+import { getOpenApiMocks } from './open-api';
+import { createProxyHandler, captureRawBody } from './proxy';
+import { createRecorder } from './record';
+import { createSequences, Sequences } from './sequence';
+import { getSessionId } from './session';
+import {
+  Mock,
+  Options,
+  Scenarios,
+  Default,
+  Context,
+  MockServer,
+  MockServerController,
+  ContextStrategy,
+} from './types';
 import { getUi, updateUi } from './ui';
+import { validateConfig, validateMocks } from './validate';
+import { watchMocks } from './watch';
+import {
+  createUpgradeHandler,
+  getWebSocketMocks,
+  getWebSocketRoutes,
+} from './web-socket';
 
 export * from './types';
-export { run };
+export { run, runFile, loadMockFile, getOpenApiMocks, getHarMocks };
 
-function run({
-  default: defaultMocks,
-  scenarios: scenarioMocks = {},
+const corsHandler = cors();
+
+function run(mocks: {
+  default: Default;
+  scenarios?: Scenarios;
+  options?: Options;
+}): MockServer {
+  return createServer(mocks).mockServer;
+}
+
+function runFile({
+  file,
+  options,
+}: {
+  file: string;
+  options?: Options;
+}): MockServer {
+  // Throws for missing files before the server starts listening, as nothing
+  // could close it afterwards
+  require.resolve(path.resolve(file));
+
+  const { mockServer, setMocks, setLoadError } = createServer({
+    default: [],
+    options,
+  });
+
+  const watcher = watchMocks({
+    file,
+    onLoad: setMocks,
+    onError: error => {
+      console.error(`Failed to load mocks from "${file}"`, error);
+      setLoadError(error);
+    },
+  });
+
+  const { close } = mockServer;
+
+  return Object.assign(mockServer, {
+    close(callback?: (error?: Error) => void) {
+      watcher.close();
+      return close(callback);
+    },
+  });
+}
+
+function createServer({
+  default: initialDefaultMocks,
+  scenarios: initialScenarioMocks = {},
   options = {},
 }: {
   default: Default;
   scenarios?: Scenarios;
   options?: Options;
 }) {
-  let selectedScenarios: string[] = [];
-  let router: Router;
-  updateScenarios([]);
+  validateConfig({
+    default: initialDefaultMocks,
+    scenarios: initialScenarioMocks,
+    options,
+  });
+
+  let defaultMocks = initialDefaultMocks;
+  let scenarioMocks = initialScenarioMocks;
+  let loadError: string | undefined;
+  let globalSession: Session;
+  const sessions: Record<string, Session> = {};
+  let addedMocks: Mock[] = [];
 
   const {
     port = 3000,
     uiPath = '/',
     modifyScenariosPath = '/modify-scenarios',
     resetScenariosPath = '/reset-scenarios',
+    requestsPath = '/requests',
+    requestsLimit = 1000,
+    sequencesPath = '/sequences',
+    contextPath = '/context',
+    networkPath = '/network',
+    faultsPath = '/faults',
+    contextStrategy: defaultContextStrategy = 'reset',
+    proxy,
+    record,
+    seed = 0,
+    networkProfile: initialNetworkProfile,
+    networkProfiles: customNetworkProfiles = {},
+    faults: faultOptions = {},
   } = options;
-  const app = express();
-  const scenarioNames = Object.keys(scenarioMocks);
-  const groupNames = Object.values(scenarioMocks).reduce<string[]>(
-    (result, mock) => {
-      if (
-        Array.isArray(mock) ||
-        mock.group == null ||
-        result.includes(mock.group)
-      ) {
-        return result;
-      }
 
-      result.push(mock.group);
-      return result;
-    },
-    [],
-  );
+  const faults = createFaults({ faults: faultOptions, seed });
+
+  const allNetworkProfiles = { ...networkProfiles, ...customNetworkProfiles };
+  let networkProfile = initialNetworkProfile;
+
+  updateScenarios([]);
+
+  const app = express();
 
   nunjucks.configure(__dirname, {
     autoescape: true,
     express: app,
   });
 
-  app.use(cors());
+  // OPTIONS requests are left for mocks first, so that failing CORS preflight
+  // requests can be mocked
+  app.use((req, res, next) => {
+    if (req.method === 'OPTIONS') {
+      next();
+      return;
+    }
+
+    corsHandler(req, res, next);
+  });
   app.use(uiPath, express.static(path.join(__dirname, 'assets')));
-  app.use(express.urlencoded({ extended: false }));
-  app.use(express.json());
-  app.use(express.text({ type: 'application/graphql' }));
+  app.use(express.urlencoded({ extended: false, verify: captureRawBody }));
+  app.use(express.json({ verify: captureRawBody }));
+  app.use(
+    express.text({ type: 'application/graphql', verify: captureRawBody }),
+  );
 
   app.get(
     uiPath,
-    getUi({ scenarioMocks, getScenarios: () => selectedScenarios }),
+    getUi({
+      getScenarioMocks: () => scenarioMocks,
+      getScenarios: sessionId => getSession(sessionId).scenarios,
+      getSessionIds: () => Object.keys(sessions),
+      getLoadError: () => loadError,
+      defaultContextStrategy,
+      getNetworkProfile: () => networkProfile,
+      getNetworkProfileNames,
+      faults,
+    }),
   );
 
   app.post(
     uiPath,
-    updateUi({ groupNames, scenarioNames, scenarioMocks, updateScenarios }),
+    updateUi({
+      getScenarioMocks: () => scenarioMocks,
+      getScenarios: sessionId => getSession(sessionId).scenarios,
+      updateScenarios,
+      getSessionIds: () => Object.keys(sessions),
+      getLoadError: () => loadError,
+      defaultContextStrategy,
+      getNetworkProfile: () => networkProfile,
+      getNetworkProfileNames,
+      setNetworkProfile: selectNetworkProfile,
+      faults,
+    }),
+  );
+
+  app.get(
+    modifyScenariosPath,
+    getScenarios({
+      getScenarioMocks: () => scenarioMocks,
+      getSelectedScenarios: sessionId => getSession(sessionId).scenarios,
+    }),
   );
 
   app.put(
     modifyScenariosPath,
-    modifyScenarios({ scenarioNames, scenarioMocks, updateScenarios }),
+    modifyScenarios({
+      getScenarioMocks: () => scenarioMocks,
+      updateScenarios,
+    }),
   );
 
   app.put(resetScenariosPath, resetScenarios({ updateScenarios }));
 
+  app.get(contextPath, getCurrentContext({ getSessionContext: getSession }));
+  app.put(contextPath, replaceContext({ getSessionContext: getSession }));
+  app.patch(contextPath, mergeContext({ getSessionContext: getSession }));
+  app.delete(contextPath, resetContext({ getSessionContext: getSession }));
+
+  const journal = createJournal(requestsLimit);
+  app.get(requestsPath, getRequests({ journal }));
+  app.delete(requestsPath, clearRequests({ journal }));
+
+  app.get(
+    sequencesPath,
+    getSequences({
+      getCurrentSequences: sessionId => getSession(sessionId).sequences,
+    }),
+  );
+  app.delete(
+    sequencesPath,
+    resetSequences({
+      getCurrentSequences: sessionId => getSession(sessionId).sequences,
+    }),
+  );
+
+  app.get(
+    networkPath,
+    getNetwork({
+      getNetworkProfile: () => networkProfile,
+      getNetworkProfileNames,
+    }),
+  );
+  app.put(
+    networkPath,
+    updateNetwork({
+      getNetworkProfileNames,
+      setNetworkProfile: selectNetworkProfile,
+    }),
+  );
+
+  app.get(faultsPath, getFaults({ faults }));
+  app.put(faultsPath, modifyFaults({ faults }));
+
+  // Admin requests above are not recorded
+  app.use(journal.recordRequests);
+
+  app.use(
+    createNetworkHandler(() =>
+      networkProfile ? allNetworkProfiles[networkProfile] : undefined,
+    ),
+  );
+
+  app.use((_, res, next) => {
+    setFaults(res, faults);
+    next();
+  });
+
   app.use((req, res, next) => {
-    router(req, res, next);
+    getSession(getSessionId(req)).router(req, res, next);
   });
 
-  return transform(
+  if (proxy) {
+    // Only faults that replace the response apply, as the proxied response is
+    // streamed straight through
+    app.use((req, res, next) => {
+      const fault = findFault(res, { url: req.path, method: req.method }, [
+        'error',
+        'reset',
+        'hang',
+      ]);
+      if (!fault || !sendFault(res, fault)) {
+        next();
+      }
+    });
+
+    // Anything not handled by a mock is forwarded on
+    app.use(
+      createProxyHandler(proxy, record ? createRecorder(record) : undefined),
+    );
+  }
+
+  const server = transform(
     app.listen(port, () => {
       console.log(`Server running on port ${port}`);
     }),
   );
 
-  function updateScenarios(updatedScenarios: string[]) {
-    selectedScenarios = updatedScenarios;
-    console.log('Selected scenarios', selectedScenarios);
+  server.on(
+    'upgrade',
+    createUpgradeHandler(req => getSession(getSessionId(req)).webSocketRoutes),
+  );
+
+  const closeServer = server.close.bind(server);
+  let killed = false;
+
+  const controller: MockServerController = {
+    server,
+    setScenarios(scenarios, sessionId, contextStrategy) {
+      const message = getScenariosError({ scenarios, scenarioMocks });
+      if (message) {
+        throw new Error(message);
+      }
+
+      updateScenarios(scenarios, sessionId, contextStrategy);
+    },
+    resetScenarios(sessionId, contextStrategy) {
+      updateScenarios([], sessionId, contextStrategy);
+    },
+    getSelectedScenarios(sessionId) {
+      return getSession(sessionId).scenarios;
+    },
+    getContext(sessionId) {
+      return getSession(sessionId).getContext();
+    },
+    setContext(context, sessionId) {
+      getSession(sessionId).setContext(context);
+    },
+    addMocks(mocks) {
+      validateMocks(mocks, 'mocks');
+      addedMocks = addedMocks.concat(mocks);
+      rebuildSessions();
+    },
+    getRequests: journal.getRequests,
+    getNetworkProfile() {
+      return networkProfile;
+    },
+    setNetworkProfile(profile) {
+      const message = getNetworkProfileError(profile, getNetworkProfileNames());
+      if (message) {
+        throw new Error(message);
+      }
+
+      selectNetworkProfile(profile);
+    },
+    getEnabledFaults: faults.getEnabledFaults,
+    setFaults(faultNames) {
+      const message = getFaultsError(
+        faultNames,
+        Object.keys(faults.getFaults()),
+      );
+      if (message) {
+        throw new Error(message);
+      }
+
+      faults.setEnabledFaults(faultNames);
+    },
+    // Open connections are ended too
+    close(callback) {
+      return new Promise(resolve => {
+        const onClose = (error?: Error) => {
+          if (callback) {
+            callback(error);
+          }
+          resolve();
+        };
+
+        // kill ends the connections and then calls close again
+        if (killed) {
+          closeServer(onClose);
+          return;
+        }
+
+        killed = true;
+        server.kill(onClose);
+      });
+    },
+  };
+  const mockServer: MockServer = Object.assign(server, controller);
+
+  return { mockServer, setMocks, setLoadError };
+
+  function setMocks(mocks: { default: Default; scenarios?: Scenarios }) {
+    validateConfig(mocks);
+    defaultMocks = mocks.default;
+    scenarioMocks = mocks.scenarios || {};
+    loadError = undefined;
+    rebuildSessions();
+  }
+
+  function getNetworkProfileNames() {
+    return Object.keys(allNetworkProfiles);
+  }
+
+  function selectNetworkProfile(profile?: string) {
+    networkProfile = profile;
+  }
+
+  function setLoadError(error: Error) {
+    loadError = error.stack || error.message;
+  }
 
-    router = createRouter({
-      defaultMocks,
-      scenarioMocks,
-      scenarios: selectedScenarios,
+  // Keeps the selected scenarios of every session that still exist, along
+  // with their context and sequence positions
+  function rebuildSessions() {
+    updateScenarios(
+      getExistingScenarios(globalSession.scenarios),
+      undefined,
+      'keep',
+      globalSession.sequences,
+    );
+    Object.entries(sessions).forEach(
+      ([sessionId, { scenarios, sequences }]) => {
+        updateScenarios(
+          getExistingScenarios(scenarios),
+          sessionId,
+          'keep',
+          sequences,
+        );
+      },
+    );
+  }
+
+  function getExistingScenarios(scenarios: string[]) {
+    const groups: string[] = [];
+
+    return scenarios.filter(scenario => {
+      const scenarioMock = scenarioMocks[scenario];
+      if (!scenarioMock) {
+        return false;
+      }
+
+      if (Array.isArray(scenarioMock) || scenarioMock.group == null) {
+        return true;
+      }
+
+      // Scenarios may have been moved into the same group
+      if (groups.includes(scenarioMock.group)) {
+        return false;
+      }
+
+      groups.push(scenarioMock.group);
+      return true;
     });
   }
+
+  function updateScenarios(
+    updatedScenarios: string[],
+    sessionId?: string,
+    contextStrategy: ContextStrategy = defaultContextStrategy,
+    sequences?: Sequences,
+  ) {
+    const previousSession =
+      sessionId === undefined ? globalSession : sessions[sessionId];
+    const session = {
+      scenarios: updatedScenarios,
+      ...createRouter({
+        defaultMocks,
+        addedMocks,
+        scenarioMocks,
+        scenarios: updatedScenarios,
+        seed,
+        sequences,
+      }),
+    };
+
+    if (previousSession && contextStrategy === 'keep') {
+      session.setContext(previousSession.getContext());
+    } else if (previousSession && contextStrategy === 'merge') {
+      // Scenarios that were already selected keep the context they have built
+      // up
+      const addedScenarios = updatedScenarios.filter(
+        scenario => !previousSession.scenarios.includes(scenario),
+      );
+      session.setContext({
+        ...previousSession.getContext(),
+        ...getInitialContext(
+          addedScenarios.map(scenario => scenarioMocks[scenario]),
+        ),
+      });
+    }
+
+    if (sessionId === undefined) {
+      console.log('Selected scenarios', updatedScenarios);
+      globalSession = session;
+    } else {
+      console.log(
+        `Selected scenarios for session "${sessionId}"`,
+        updatedScenarios,
+      );
+      sessions[sessionId] = session;
+    }
+  }
+
+  // Sessions start with no scenarios selected the first time they are used
+  function getSession(sessionId?: string) {
+    if (sessionId === undefined) {
+      return globalSession;
+    }
+
+    if (!sessions[sessionId]) {
+      updateScenarios([], sessionId);
+    }
+
+    return sessions[sessionId];
+  }
 }
 
+type Session = { scenarios: string[] } & ReturnType<typeof createRouter>;
+
 function createRouter({
   defaultMocks,
+  addedMocks,
   scenarioMocks,
   scenarios,
+  seed,
+  sequences = createSequences(),
 }: {
   defaultMocks: Default;
+  addedMocks: Mock[];
   scenarioMocks: Scenarios;
   scenarios: string[];
+  seed: string | number;
+  sequences?: Sequences;
 }) {
-  const defaultAndScenarioMocks = [defaultMocks].concat(
-    scenarios.map(scenario => scenarioMocks[scenario]),
-  );
+  // Mocks added after starting take priority over everything else
+  const defaultAndScenarioMocks = [defaultMocks]
+    .concat(scenarios.map(scenario => scenarioMocks[scenario]))
+    .concat([addedMocks]);
 
-  let context = getInitialContext(defaultAndScenarioMocks);
+  const initialContext = getInitialContext(defaultAndScenarioMocks);
+  let context = initialContext;
 
   const mocks = getMocks(defaultAndScenarioMocks);
   const httpMocks = getHttpMocks(mocks);
   const graphQlMocks = getGraphQlMocks(mocks);
+  const webSocketMocks = getWebSocketMocks(mocks);
 
   const router = Router();
 
-  applyHttpRoutes({ router, httpMocks, getContext, updateContext });
-  applyGraphQlRoutes({ router, graphQlMocks, getContext, updateContext });
+  // The last selected scenario with a seed replaces the server's seed
+  const scenarioSeed = String(
+    scenarios.reduce<string | number>((result, scenario) => {
+      const scenarioMock = scenarioMocks[scenario];
+      return !Array.isArray(scenarioMock) && scenarioMock.seed !== undefined
+        ? scenarioMock.seed
+        : result;
+    }, seed),
+  );
+
+  applyHttpRoutes({
+    router,
+    httpMocks,
+    sequences,
+    getContext,
+    updateContext,
+    seed: scenarioSeed,
+  });
+  applyGraphQlRoutes({
+    router,
+    graphQlMocks,
+    sequences,
+    getContext,
+    updateContext,
+    seed: scenarioSeed,
+  });
 
-  return router;
+  // Otherwise the router would answer OPTIONS requests itself
+  router.options('*', corsHandler);
+
+  const webSocketRoutes = getSubscriptionRoutes({
+    graphQlMocks,
+    getContext,
+    updateContext,
+  }).concat(getWebSocketRoutes({ webSocketMocks, getContext, updateContext }));
+
+  return {
+    router,
+    webSocketRoutes,
+    sequences,
+    getContext,
+    setContext,
+    initialContext,
+  };
 
   function updateContext(
     partialContext: Context | ((context: Context) => Context),
@@ -142,6 +612,10 @@ function createRouter({
   function getContext() {
     return context;
   }
+
+  function setContext(updatedContext: Context) {
+    context = updatedContext;
+  }
 }
 
 function getMocks(scenarioMocks: ({ mocks: Mock[] } | Mock[])[]) {
@@ -0,0 +1,109 @@
+import { RequestHandler, Response } from 'express';
+
+import { getGraphQlRequest, isGraphQlRequest } from './graph-ql';
+import { getSessionId } from './session';
+import { JournalEntry, JournalFilters, MatchedMock } from './types';
+
+export { createJournal, setMatchedMock, Journal };
+
+type Journal = ReturnType<typeof createJournal>;
+
+// Only the latest requests are kept, as every header and body is stored
+function createJournal(limit: number) {
+  let nextId = 1;
+  let entries: JournalEntry[] = [];
+
+  const recordRequests: RequestHandler = (req, res, next) => {
+    const startTime = process.hrtime();
+    const { method, path, query, headers, body } = req;
+
+    let graphQl: JournalEntry['graphQl'];
+    if (isGraphQlRequest({ method, headers, body, query })) {
+      const graphQlRequest = getGraphQlRequest({ headers, body, query });
+
+      if (!('message' in graphQlRequest)) {
+        const { operationType, operationName, variables } = graphQlRequest;
+        graphQl = { operationType, operationName, variables };
+      }
+    }
+
+    const entry: JournalEntry = {
+      id: nextId++,
+      timestamp: new Date().toISOString(),
+      method,
+      path,
+      query,
+      headers,
+      body,
+      graphQl,
+      mock: null,
+      responseCode: null,
+      duration: null,
+      session: getSessionId(req) || null,
+    };
+    entries.push(entry);
+    if (entries.length > limit) {
+      entries = entries.slice(-limit);
+    }
+
+    let finished = false;
+    const finish = () => {
+      if (finished) {
+        return;
+      }
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      finished = true;
+      entry.mock = res.locals.mock || null;
+      entry.responseCode = res.statusCode;
+      entry.duration = seconds * 1000 + nanoseconds / 1000000;
+    };
+    res.on('finish', finish);
+    res.on('close', finish);
+
+    next();
+  };
+
+  return {
+    recordRequests,
+    getRequests,
+    clearRequests,
+  };
+
+  function getRequests({
+    session,
+    method,
+    path,
+    operationName,
+    operationType,
+    matched,
+  }: JournalFilters = {}) {
+    return entries.filter(
+      entry =>
+        (session === undefined || entry.session === session) &&
+        (method === undefined ||
+          entry.method.toUpperCase() === method.toUpperCase()) &&
+        (path === undefined ||
+          (typeof path === 'string'
+            ? entry.path === path
+            : path.test(entry.path))) &&
+        (operationName === undefined ||
+          (!!entry.graphQl && entry.graphQl.operationName === operationName)) &&
+        (operationType === undefined ||
+          (!!entry.graphQl && entry.graphQl.operationType === operationType)) &&
+        (matched === undefined || (entry.mock !== null) === matched),
+    );
+  }
+
+  // Clears every request when no session is given
+  function clearRequests(session?: string) {
+    entries =
+      session === undefined
+        ? []
+        : entries.filter(entry => entry.session !== session);
+  }
+}
+
+function setMatchedMock(res: Response, mock: MatchedMock) {
+  res.locals.mock = mock;
+}
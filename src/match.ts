@@ -0,0 +1,170 @@
+import { IncomingHttpHeaders } from 'http';
+
+import { HttpMatch, OperationMatch } from './types';
+
+export {
+  isSubset,
+  getMatchKey,
+  sortBySpecificity,
+  matchesHttpRequest,
+  matchesOperation,
+  parseCookies,
+  getValueAtPath,
+  stableStringify,
+};
+
+function isSubset(value: any, subset: any): boolean {
+  if (subset === null || typeof subset !== 'object') {
+    return value === subset;
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+
+  if (Array.isArray(subset)) {
+    return (
+      Array.isArray(value) &&
+      value.length === subset.length &&
+      subset.every((item, index) => isSubset(value[index], item))
+    );
+  }
+
+  return Object.keys(subset).every(key => isSubset(value[key], subset[key]));
+}
+
+// Mocks with the same key replace each other when scenarios are merged
+function getMatchKey(match?: HttpMatch | OperationMatch) {
+  return match ? stableStringify(match) : '';
+}
+
+// Most specific first, with later mocks winning ties
+function sortBySpecificity<
+  TMock extends { match?: HttpMatch | OperationMatch }
+>(mocks: TMock[]) {
+  return mocks
+    .map((mock, index) => ({
+      mock,
+      index,
+      specificity: getSpecificity(mock.match),
+    }))
+    .sort((a, b) => b.specificity - a.specificity || b.index - a.index)
+    .map(({ mock }) => mock);
+}
+
+// The number of values that must match
+function getSpecificity(match?: HttpMatch | OperationMatch): number {
+  if (!match) {
+    return 0;
+  }
+
+  return Object.values(match).reduce<number>(
+    (result, value) => result + countValues(value),
+    0,
+  );
+}
+
+function matchesHttpRequest(
+  match: HttpMatch | undefined,
+  {
+    query,
+    headers,
+    body,
+  }: {
+    query: Record<string, any>;
+    headers: IncomingHttpHeaders;
+    body: any;
+  },
+) {
+  if (!match) {
+    return true;
+  }
+
+  return (
+    (!match.query || isSubset(query, match.query)) &&
+    (!match.headers ||
+      Object.entries(match.headers).every(
+        ([name, value]) => headers[name.toLowerCase()] === value,
+      )) &&
+    (!match.cookies || isSubset(parseCookies(headers.cookie), match.cookies)) &&
+    (match.body === undefined || isSubset(body, match.body)) &&
+    (!match.bodyPaths ||
+      Object.entries(match.bodyPaths).every(([bodyPath, value]) =>
+        isSubset(getValueAtPath(body, bodyPath), value),
+      ))
+  );
+}
+
+function matchesOperation(
+  match: OperationMatch | undefined,
+  { variables }: { variables: Record<string, any> },
+) {
+  return !match || !match.variables || isSubset(variables, match.variables);
+}
+
+function countValues(value: any): number {
+  if (value === null || typeof value !== 'object') {
+    return 1;
+  }
+
+  return Object.values(value).reduce<number>(
+    (result, childValue) => result + countValues(childValue),
+    0,
+  );
+}
+
+// Supports paths such as "$.items[0].id" and "items.0.id"
+function getValueAtPath(value: any, path: string) {
+  return path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(part => part !== '')
+    .reduce(
+      (result, part) =>
+        result !== null && typeof result === 'object'
+          ? result[part]
+          : undefined,
+      value,
+    );
+}
+
+// Other apps on the same host can set cookies that are not encoded, so
+// those are kept as they are
+function parseCookies(cookieHeader?: string) {
+  return (cookieHeader || '')
+    .split(';')
+    .reduce<Record<string, string>>((result, cookie) => {
+      const index = cookie.indexOf('=');
+      if (index > -1) {
+        result[cookie.slice(0, index).trim()] = decodeCookie(
+          cookie.slice(index + 1).trim(),
+        );
+      }
+
+      return result;
+    }, {});
+}
+
+function decodeCookie(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch (error) {
+    return value;
+  }
+}
+
+function stableStringify(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  return `{${Object.keys(value)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+    .join(',')}}`;
+}
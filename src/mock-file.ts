@@ -0,0 +1,159 @@
+import fs from 'fs';
+import yaml from 'js-yaml';
+import path from 'path';
+
+import { Default, Options, Scenarios } from './types';
+import { getConfigErrors } from './validate';
+
+export { loadMockFile, loadConfigFile, decodeFileContents };
+
+// Reads mocks written in JSON or YAML, e.g. for people who do not write code
+function loadMockFile(
+  file: string,
+): { default: Default; scenarios: Scenarios } {
+  const { default: defaultMocks, scenarios } = loadConfigFile(file);
+
+  return { default: defaultMocks, scenarios };
+}
+
+// Config files for the CLI can also set options
+function loadConfigFile(
+  file: string,
+): { default: Default; scenarios: Scenarios; options?: Options } {
+  const extension = path.extname(file).toLowerCase();
+  if (!['.json', '.yaml', '.yml'].includes(extension)) {
+    throw new Error(`"${file}" must be a .json, .yaml or .yml file`);
+  }
+
+  const content = fs.readFileSync(file, 'utf8');
+  const data = decodeFileContents(
+    extension === '.json' ? JSON.parse(content) : yaml.safeLoad(content),
+  );
+
+  if (!isObject(data)) {
+    throwErrors(file, [
+      'mocks must be an object with "default" and "scenarios"',
+    ]);
+  }
+
+  // Only what is specific to files is checked here, everything else is
+  // checked in the same way as mocks passed to run
+  const invalidUrls: string[] = [];
+  const mocks = {
+    default: convertMocks(data.default, 'default', invalidUrls),
+    scenarios: isObject(data.scenarios)
+      ? Object.entries<any>(data.scenarios).reduce<Record<string, any>>(
+          (result, [name, scenario]) => {
+            result[name] = convertMocks(
+              scenario,
+              `scenarios.${name}`,
+              invalidUrls,
+            );
+            return result;
+          },
+          {},
+        )
+      : data.scenarios || {},
+    ...(data.options !== undefined && { options: data.options }),
+  };
+
+  throwErrors(
+    file,
+    getConfigErrors(mocks).map(error => {
+      const location = invalidUrls.find(url => error.startsWith(`"${url}" `));
+
+      return location
+        ? `"${location}" must be a string or an object with a valid "regex"`
+        : error;
+    }),
+  );
+
+  return mocks;
+}
+
+function throwErrors(file: string, errors: string[]) {
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid mocks in "${file}":\n${errors
+        .map(error => `- ${error}`)
+        .join('\n')}`,
+    );
+  }
+}
+
+// Mocks that are not in a list are left for validation to report
+function convertMocks(mockList: any, location: string, invalidUrls: string[]) {
+  const mocksLocation = Array.isArray(mockList)
+    ? location
+    : `${location}.mocks`;
+  const initialMocks = Array.isArray(mockList)
+    ? mockList
+    : isObject(mockList) && mockList.mocks;
+
+  if (!Array.isArray(initialMocks)) {
+    return mockList;
+  }
+
+  const mocks = initialMocks.map((mock, index) => {
+    if (!isObject(mock) || !isObject(mock.url)) {
+      return mock;
+    }
+
+    const url = convertUrl(mock.url);
+    if (!url) {
+      invalidUrls.push(`${mocksLocation}[${index}].url`);
+    }
+
+    return { ...mock, url: url || mock.url };
+  });
+
+  return Array.isArray(mockList) ? mocks : { ...mockList, mocks };
+}
+
+// RegExp URLs are written as { regex, flags }
+function convertUrl({ regex, flags }: Record<string, any>) {
+  if (typeof regex !== 'string') {
+    return undefined;
+  }
+
+  try {
+    return new RegExp(regex, flags);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Binary file content is written as { base64 }, e.g. by record mode
+function decodeFileContents(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(decodeFileContents);
+  }
+
+  // Other objects, e.g. dates in YAML, are left as they are
+  if (!isObject(value) || Object.getPrototypeOf(value) !== Object.prototype) {
+    return value;
+  }
+
+  return Object.entries(value).reduce<Record<string, any>>(
+    (result, [key, item]) => {
+      result[key] =
+        key === '__file' && isObject(item) && isBase64Content(item.content)
+          ? { ...item, content: Buffer.from(item.content.base64, 'base64') }
+          : decodeFileContents(item);
+      return result;
+    },
+    {},
+  );
+}
+
+function isBase64Content(content: any) {
+  return (
+    isObject(content) &&
+    typeof content.base64 === 'string' &&
+    Object.keys(content).length === 1
+  );
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,128 @@
+import { RequestHandler, Response } from 'express';
+
+import { Delay, NetworkProfile } from './types';
+
+export { networkProfiles, getDelay, createNetworkHandler };
+
+// Bandwidths are in bytes per second
+const networkProfiles: Record<string, NetworkProfile> = {
+  '3G': { latency: { min: 300, max: 700 }, bandwidth: 200000 },
+  'slow 3G': { latency: { min: 1800, max: 2200 }, bandwidth: 50000 },
+  'flaky wifi': { latency: { min: 20, max: 3000 }, bandwidth: 500000 },
+  offline: { offline: true },
+};
+
+// Ranges are spread evenly from min to max
+function getDelay(delay: Delay = 0) {
+  return typeof delay === 'number'
+    ? delay
+    : delay.min + Math.random() * (delay.max - delay.min);
+}
+
+// Applied to every request that is not for the UI or an API, so that proxied
+// requests and schema responses are slowed down too
+function createNetworkHandler(
+  getNetworkProfile: () => NetworkProfile | undefined,
+): RequestHandler {
+  return async (_, res, next) => {
+    const { offline, latency, bandwidth } = getNetworkProfile() || {};
+    // The connection is dropped without a response, as if there were no network
+    if (offline) {
+      res.connection.destroy();
+      return;
+    }
+
+    if (bandwidth) {
+      throttle(res, bandwidth);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, getDelay(latency)));
+    next();
+  };
+}
+
+// Sends a tenth of a second's worth of the body at a time, whether it is
+// sent all at once, streamed or piped
+function throttle(res: Response, bandwidth: number) {
+  const write = res.write.bind(res);
+  const end = res.end.bind(res);
+  const chunkSize = Math.max(1, Math.floor(bandwidth / 10));
+  let queue = Promise.resolve();
+  let pending = 0;
+  let started = false;
+  let closed = false;
+
+  res.on('close', () => {
+    closed = true;
+  });
+
+  Object.assign(res, {
+    write(chunk: any, ...rest: any[]) {
+      enqueue(
+        () => writeSlowly(toBuffer(chunk, rest[0])),
+        rest.find(arg => typeof arg === 'function'),
+      );
+
+      // Piped streams wait for "drain" before writing more, so only the
+      // chunk being sent is held in memory
+      return false;
+    },
+    end(chunk?: any, ...rest: any[]) {
+      enqueue(
+        () =>
+          typeof chunk === 'function' || chunk === undefined || chunk === null
+            ? undefined
+            : writeSlowly(toBuffer(chunk, rest[0])),
+        () => {
+          if (!closed) {
+            end([chunk, ...rest].find(arg => typeof arg === 'function'));
+          }
+        },
+      );
+
+      return res;
+    },
+  });
+
+  function enqueue(
+    send: () => Promise<void> | undefined,
+    callback?: () => void,
+  ) {
+    pending += 1;
+    queue = queue.then(send).then(() => {
+      pending -= 1;
+      if (callback) {
+        callback();
+      }
+
+      if (pending === 0 && !closed) {
+        res.emit('drain');
+      }
+    });
+  }
+
+  async function writeSlowly(buffer: Buffer) {
+    for (let offset = 0; offset < buffer.length; offset += chunkSize) {
+      if (started) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+      started = true;
+
+      if (closed) {
+        return;
+      }
+
+      write(buffer.slice(offset, offset + chunkSize));
+    }
+  }
+}
+
+function toBuffer(chunk: any, encoding: any) {
+  if (Buffer.isBuffer(chunk)) {
+    return chunk;
+  }
+
+  return typeof encoding === 'string'
+    ? Buffer.from(chunk, encoding as BufferEncoding)
+    : Buffer.from(chunk);
+}
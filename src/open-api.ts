@@ -0,0 +1,252 @@
+import {
+  HttpMethod,
+  HttpMock,
+  OpenApiDocument,
+  OpenApiOptions,
+  Scenarios,
+} from './types';
+
+export { getOpenApiMocks };
+
+const httpMethods: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+
+function getOpenApiMocks(
+  document: OpenApiDocument,
+  { basePath = '' }: OpenApiOptions = {},
+) {
+  const defaultMocks: HttpMock[] = [];
+  const scenarios: Scenarios = {};
+
+  Object.entries(document.paths).forEach(([openApiPath, pathItem]) => {
+    const url = `${basePath}${openApiPath.replace(/{([^}]+)}/g, ':$1')}`;
+
+    httpMethods.forEach(method => {
+      const operation = pathItem[method.toLowerCase()];
+      if (!operation || !operation.responses) {
+        return;
+      }
+
+      const mocksByStatus = Object.entries(operation.responses as Record<
+        string,
+        any
+      >).map(([status, response]) => ({
+        status,
+        mock: {
+          url,
+          method,
+          ...getResponseProps(
+            document,
+            status,
+            resolveReference(document, response),
+          ),
+        },
+      }));
+
+      if (mocksByStatus.length === 0) {
+        return;
+      }
+
+      // Successful responses are used by default, everything else becomes a scenario
+      const defaultMock =
+        mocksByStatus.find(({ status }) => /^2/.test(status)) ||
+        mocksByStatus.find(({ status }) => status === 'default') ||
+        mocksByStatus[0];
+      defaultMocks.push(defaultMock.mock);
+
+      const group = operation.operationId || `${method} ${openApiPath}`;
+      mocksByStatus
+        .filter(mockByStatus => mockByStatus !== defaultMock)
+        .forEach(({ status, mock }) => {
+          scenarios[`${group}:${status}`] = {
+            group,
+            mocks: [mock],
+          };
+        });
+    });
+  });
+
+  return {
+    default: defaultMocks,
+    scenarios,
+  };
+}
+
+function getResponseProps(
+  document: OpenApiDocument,
+  status: string,
+  { content = {} }: Record<string, any>,
+) {
+  const responseCode =
+    status === 'default' ? 500 : parseInt(status.replace(/X/gi, '0'), 10);
+  const [contentType, mediaType] = Object.entries(content as Record<
+    string,
+    any
+  >)[0] || [undefined, undefined];
+
+  if (!contentType) {
+    return { responseCode };
+  }
+
+  const response = getExample(document, mediaType);
+
+  if (/json/.test(contentType)) {
+    return { responseCode, response };
+  }
+
+  return {
+    responseCode,
+    responseHeaders: { 'Content-Type': contentType },
+    response:
+      response === undefined || typeof response === 'string'
+        ? response
+        : JSON.stringify(response),
+  };
+}
+
+function getExample(document: OpenApiDocument, mediaType: Record<string, any>) {
+  if (mediaType.example !== undefined) {
+    return mediaType.example;
+  }
+
+  if (mediaType.examples) {
+    const [example] = Object.values(mediaType.examples as Record<string, any>);
+
+    if (example) {
+      return resolveReference(document, example).value;
+    }
+  }
+
+  return mediaType.schema
+    ? getSampleFromSchema(document, mediaType.schema, [])
+    : undefined;
+}
+
+function getSampleFromSchema(
+  document: OpenApiDocument,
+  schemaOrReference: Record<string, any>,
+  seenReferences: string[],
+): any {
+  const reference = schemaOrReference.$ref;
+  if (reference) {
+    // Stop at circular references
+    if (seenReferences.includes(reference)) {
+      return undefined;
+    }
+
+    seenReferences = seenReferences.concat(reference);
+  }
+
+  const schema = resolveReference(document, schemaOrReference);
+
+  if (schema.example !== undefined) {
+    return schema.example;
+  }
+
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf.reduce(
+      (result: Record<string, any>, subSchema: Record<string, any>) => ({
+        ...result,
+        ...getSampleFromSchema(document, subSchema, seenReferences),
+      }),
+      {},
+    );
+  }
+
+  const [firstSchema] = schema.oneOf || schema.anyOf || [];
+  if (firstSchema) {
+    return getSampleFromSchema(document, firstSchema, seenReferences);
+  }
+
+  if (schema.type === 'object' || schema.properties) {
+    return Object.entries((schema.properties || {}) as Record<
+      string,
+      any
+    >).reduce<Record<string, any>>((result, [name, propertySchema]) => {
+      const value = getSampleFromSchema(
+        document,
+        propertySchema,
+        seenReferences,
+      );
+      if (value !== undefined) {
+        result[name] = value;
+      }
+
+      return result;
+    }, {});
+  }
+
+  switch (schema.type) {
+    case 'array': {
+      const item = schema.items
+        ? getSampleFromSchema(document, schema.items, seenReferences)
+        : undefined;
+
+      return item === undefined ? [] : [item];
+    }
+    case 'integer':
+    case 'number':
+      return schema.minimum !== undefined ? schema.minimum : 0;
+    case 'boolean':
+      return true;
+    case 'string':
+      return getSampleString(schema.format);
+    default:
+      return undefined;
+  }
+}
+
+function getSampleString(format?: string) {
+  switch (format) {
+    case 'date':
+      return '2020-01-01';
+    case 'date-time':
+      return '2020-01-01T00:00:00.000Z';
+    case 'email':
+      return 'user@example.com';
+    case 'uuid':
+      return '00000000-0000-0000-0000-000000000000';
+    case 'uri':
+    case 'url':
+      return 'https://example.com';
+    default:
+      return 'string';
+  }
+}
+
+function resolveReference(
+  document: OpenApiDocument,
+  value: Record<string, any>,
+): Record<string, any> {
+  if (!value || typeof value.$ref !== 'string') {
+    return value;
+  }
+
+  if (!value.$ref.startsWith('#/')) {
+    throw new Error(
+      `Unable to resolve "${value.$ref}" - only local references are supported`,
+    );
+  }
+
+  const resolvedValue = value.$ref
+    .slice(2)
+    .split('/')
+    .map((part: string) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce(
+      (result: any, part: string) => (result == null ? result : result[part]),
+      document,
+    );
+
+  if (resolvedValue == null) {
+    throw new Error(`Unable to resolve "${value.$ref}"`);
+  }
+
+  return resolveReference(document, resolvedValue);
+}
@@ -0,0 +1,144 @@
+import http, { IncomingHttpHeaders } from 'http';
+import https from 'https';
+import { Request, RequestHandler } from 'express';
+import { URL } from 'url';
+
+import { ProxyOptions } from './types';
+
+export { createProxyHandler, captureRawBody };
+
+type RequestWithRawBody = Request & { rawBody?: Buffer };
+
+// Used as the `verify` option of the body parsers so that proxied requests
+// can be forwarded with the exact body that was sent
+function captureRawBody(req: http.IncomingMessage, _: unknown, buffer: Buffer) {
+  (req as RequestWithRawBody).rawBody = buffer;
+}
+
+function createProxyHandler(
+  proxy: string | ProxyOptions,
+  onProxyResponse?: (
+    req: Request,
+    proxyRes: http.IncomingMessage,
+    body: Buffer,
+  ) => void,
+): RequestHandler {
+  const {
+    target,
+    paths,
+    excludePaths = [],
+    requestHeaders = {},
+    responseHeaders = {},
+    changeOrigin = true,
+  }: ProxyOptions = typeof proxy === 'string' ? { target: proxy } : proxy;
+  const targetUrl = new URL(target);
+  const basePath = targetUrl.pathname.replace(/\/$/, '');
+  const request =
+    targetUrl.protocol === 'https:' ? https.request : http.request;
+
+  return (req: RequestWithRawBody, res, next) => {
+    if (
+      (paths &&
+        !paths.some(pathToCheck => matchesPath(req.path, pathToCheck))) ||
+      excludePaths.some(pathToCheck => matchesPath(req.path, pathToCheck))
+    ) {
+      next();
+      return;
+    }
+
+    const headers = rewriteHeaders(
+      changeOrigin ? { ...req.headers, host: targetUrl.host } : req.headers,
+      requestHeaders,
+    );
+    // Responses are recorded as text, so they are asked for uncompressed
+    if (onProxyResponse) {
+      delete headers['accept-encoding'];
+    }
+    if (req.rawBody !== undefined) {
+      headers['content-length'] = String(req.rawBody.length);
+    }
+
+    const proxyReq = request(
+      {
+        protocol: targetUrl.protocol,
+        hostname: targetUrl.hostname,
+        port: targetUrl.port,
+        method: req.method,
+        path: `${basePath}${req.originalUrl}`,
+        headers,
+      },
+      proxyRes => {
+        res.status(proxyRes.statusCode || 502);
+        Object.entries(
+          rewriteHeaders(proxyRes.headers, responseHeaders),
+        ).forEach(([name, value]) => {
+          // Not using res.set as it modifies content-type headers
+          res.setHeader(name, value);
+        });
+        proxyRes.pipe(res);
+
+        if (onProxyResponse) {
+          const chunks: Buffer[] = [];
+          proxyRes.on('data', chunk => chunks.push(chunk));
+          proxyRes.on('end', () => {
+            // The response has already been sent, so errors are only logged
+            try {
+              onProxyResponse(req, proxyRes, Buffer.concat(chunks));
+            } catch (error) {
+              console.error(
+                `Failed to record response to "${req.path}"`,
+                error,
+              );
+            }
+          });
+        }
+      },
+    );
+
+    proxyReq.on('error', error => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+
+      res.status(502).json({
+        message: `Unable to proxy request to "${target}": ${error.message}`,
+      });
+    });
+
+    if (req.rawBody !== undefined) {
+      proxyReq.end(req.rawBody);
+    } else {
+      req.pipe(proxyReq);
+    }
+  };
+}
+
+function matchesPath(requestPath: string, pathToCheck: string | RegExp) {
+  return typeof pathToCheck === 'string'
+    ? requestPath.startsWith(pathToCheck)
+    : pathToCheck.test(requestPath);
+}
+
+function rewriteHeaders(
+  headers: IncomingHttpHeaders,
+  headerRewrites: Record<string, string | null>,
+) {
+  const rewrittenHeaders: Record<string, string | string[]> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    if (value !== undefined) {
+      rewrittenHeaders[name] = value;
+    }
+  });
+
+  Object.entries(headerRewrites).forEach(([name, value]) => {
+    const lowerCaseName = name.toLowerCase();
+    if (value === null) {
+      delete rewrittenHeaders[lowerCaseName];
+    } else {
+      rewrittenHeaders[lowerCaseName] = value;
+    }
+  });
+
+  return rewrittenHeaders;
+}
@@ -0,0 +1,318 @@
+import fs from 'fs';
+import { IncomingHttpHeaders, IncomingMessage } from 'http';
+import path from 'path';
+
+import {
+  getGraphQlMocks,
+  getGraphQlRequest,
+  isGraphQlRequest,
+} from './graph-ql';
+import { getHttpMocks } from './http';
+import { decodeFileContents } from './mock-file';
+import {
+  Default,
+  HttpMatch,
+  HttpMethod,
+  Mock,
+  RecordOptions,
+  Scenarios,
+} from './types';
+
+export {
+  createRecorder,
+  getMockFromExchange,
+  isTextContentType,
+  RecordedExchange,
+};
+
+type RecordedExchange = {
+  method: string;
+  path: string;
+  query: Record<string, any>;
+  requestHeaders: IncomingHttpHeaders;
+  requestBody: any;
+  responseCode: number;
+  responseHeaders: IncomingHttpHeaders;
+  // Binary bodies are Buffers
+  responseBody: string | Buffer;
+};
+
+type Recording = {
+  default: Default;
+  scenarios: Scenarios;
+};
+
+// Only modules starting with this are rewritten, so that hand-written mocks
+// are never lost
+const generatedComment = '// Recorded by data-mocks-server';
+
+// Marks Buffers in recorded modules, so that they can be written as
+// Buffer.from calls
+const bufferPrefix = '\u0000base64:';
+
+// Headers that describe a specific response rather than the mock itself. The
+// body is always stored decoded, so content-encoding no longer applies
+const ignoredResponseHeaders = [
+  'access-control-allow-credentials',
+  'access-control-allow-headers',
+  'access-control-allow-methods',
+  'access-control-allow-origin',
+  'access-control-expose-headers',
+  'age',
+  'alt-svc',
+  'connection',
+  'content-encoding',
+  'content-length',
+  'date',
+  'etag',
+  'expires',
+  'keep-alive',
+  'last-modified',
+  'server-timing',
+  'set-cookie',
+  'status',
+  'transfer-encoding',
+  'vary',
+  'x-powered-by',
+];
+
+function createRecorder(record: string | RecordOptions) {
+  const { file, scenario }: RecordOptions =
+    typeof record === 'string' ? { file: record } : record;
+  const filePath = path.resolve(file);
+  const recording = readRecording(filePath);
+
+  return (
+    req: IncomingMessage & {
+      path: string;
+      query: Record<string, any>;
+      body: any;
+    },
+    proxyRes: IncomingMessage,
+    responseBody: Buffer,
+  ) => {
+    const mock = getMockFromExchange({
+      method: req.method || 'GET',
+      path: req.path,
+      query: req.query,
+      requestHeaders: req.headers,
+      requestBody: req.body,
+      responseCode: proxyRes.statusCode || 200,
+      responseHeaders: proxyRes.headers,
+      // Binary bodies, e.g. images, would be corrupted as text
+      responseBody: isTextContentType(
+        String(proxyRes.headers['content-type'] || 'text/plain'),
+      )
+        ? responseBody.toString()
+        : responseBody,
+    });
+
+    if (!mock) {
+      return;
+    }
+
+    if (scenario) {
+      recording.scenarios[scenario] = addMock(
+        recording.scenarios[scenario] || [],
+        mock,
+      );
+    } else {
+      recording.default = addMock(recording.default, mock);
+    }
+
+    writeRecording(filePath, recording);
+  };
+}
+
+function getMockFromExchange(
+  {
+    method,
+    path: url,
+    query,
+    requestHeaders,
+    requestBody,
+    responseCode,
+    responseHeaders,
+    responseBody,
+  }: RecordedExchange,
+  ignoredHeaders: string[] = [],
+): Mock | undefined {
+  const contentType = String(responseHeaders['content-type'] || '');
+  const isJson = contentType.startsWith('application/json');
+
+  let response: any = responseBody === '' ? undefined : responseBody;
+  if (Buffer.isBuffer(response)) {
+    response = { __file: { content: response } };
+  } else if (isJson && response !== undefined) {
+    try {
+      response = JSON.parse(response);
+    } catch (error) {}
+  }
+
+  const headers = Object.entries(responseHeaders).reduce<
+    Record<string, string>
+  >((result, [name, value]) => {
+    const lowerCaseName = name.toLowerCase();
+    if (
+      value === undefined ||
+      ignoredResponseHeaders.includes(lowerCaseName) ||
+      // HTTP/2 pseudo headers, e.g. ":status"
+      lowerCaseName.startsWith(':') ||
+      ignoredHeaders.some(header => header.toLowerCase() === lowerCaseName) ||
+      // application/json is added by default
+      (lowerCaseName === 'content-type' && isJson)
+    ) {
+      return result;
+    }
+
+    // Content-Type is checked with this casing when responding
+    const headerName =
+      lowerCaseName === 'content-type' ? 'Content-Type' : lowerCaseName;
+    result[headerName] = Array.isArray(value) ? value.join(', ') : value;
+    return result;
+  }, {});
+
+  const responseProps = {
+    response,
+    ...(responseCode !== 200 && { responseCode }),
+    ...(Object.keys(headers).length > 0 && { responseHeaders: headers }),
+  };
+
+  if (
+    isGraphQlRequest({
+      method,
+      headers: requestHeaders,
+      body: requestBody,
+      query,
+    })
+  ) {
+    const graphQlRequest = getGraphQlRequest({
+      headers: requestHeaders,
+      body: requestBody,
+      query,
+    });
+
+    if ('message' in graphQlRequest || !graphQlRequest.operationName) {
+      console.log(`Unable to record anonymous GraphQL operation to ${url}`);
+      return undefined;
+    }
+
+    const { operationType } = graphQlRequest;
+    if (operationType === 'subscription') {
+      return undefined;
+    }
+
+    return {
+      url,
+      method: 'GRAPHQL',
+      operations: [
+        {
+          type: operationType,
+          name: graphQlRequest.operationName,
+          ...responseProps,
+        },
+      ],
+    };
+  }
+
+  // Requests to the same url with a different query are recorded separately
+  return {
+    url,
+    method: method.toUpperCase() as HttpMethod,
+    ...(Object.keys(query).length > 0 && {
+      match: { query: query as HttpMatch['query'] },
+    }),
+    ...responseProps,
+  };
+}
+
+function isTextContentType(contentType: string) {
+  return /^text\/|json|xml|javascript|graphql/.test(contentType);
+}
+
+// Keeps the { context, mocks } and { group, mocks } forms as they are
+function addMock(mocks: Scenarios[string], mock: Mock) {
+  return Array.isArray(mocks)
+    ? mergeMocks(mocks, mock)
+    : { ...mocks, mocks: mergeMocks(mocks.mocks, mock) };
+}
+
+function mergeMocks(mocks: Mock[], mock: Mock) {
+  const updatedMocks = mocks.concat(mock);
+
+  // Always take the latest mock, the same as when scenarios are merged.
+  // WebSocket mocks are never recorded, so are kept as they are
+  return [
+    ...getHttpMocks(updatedMocks),
+    ...getGraphQlMocks(updatedMocks),
+    ...mocks.filter(({ method }) => method === 'WEBSOCKET'),
+  ];
+}
+
+function readRecording(filePath: string): Recording {
+  if (!fs.existsSync(filePath)) {
+    return { default: [], scenarios: {} };
+  }
+
+  const contents = fs.readFileSync(filePath, 'utf8');
+  if (path.extname(filePath) === '.json') {
+    return getRecording(decodeFileContents(JSON.parse(contents)));
+  }
+
+  if (contents.trim() === '') {
+    return { default: [], scenarios: {} };
+  }
+
+  // Functions and regular expressions would be lost when it is written back
+  if (!contents.startsWith(generatedComment)) {
+    throw new Error(
+      `Unable to record to "${filePath}" as it was not written by record mode. Record to a new file or a JSON file instead`,
+    );
+  }
+
+  return getRecording(requireUncached(filePath));
+}
+
+function getRecording(existingRecording: Partial<Recording>): Recording {
+  return {
+    default: existingRecording.default || [],
+    scenarios: existingRecording.scenarios || {},
+  };
+}
+
+function requireUncached(filePath: string) {
+  delete require.cache[require.resolve(filePath)];
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  return require(filePath);
+}
+
+// Buffers are written as base64, as { base64 } in JSON files
+function writeRecording(filePath: string, recording: Recording) {
+  const isJson = path.extname(filePath) === '.json';
+  const json = JSON.stringify(
+    recording,
+    function(this: any, key, value) {
+      // Buffers have already been converted by their toJSON method
+      const originalValue = this[key];
+      if (!Buffer.isBuffer(originalValue)) {
+        return value;
+      }
+
+      const base64 = originalValue.toString('base64');
+      return isJson ? { base64 } : `${bufferPrefix}${base64}`;
+    },
+    2,
+  );
+
+  fs.writeFileSync(
+    filePath,
+    isJson
+      ? `${json}\n`
+      : `${generatedComment}\nmodule.exports = ${json.replace(
+          // The prefix is escaped in JSON
+          /"\\u0000base64:([^"]*)"/g,
+          "Buffer.from('$1', 'base64')",
+        )};\n`,
+  );
+}
@@ -0,0 +1,152 @@
+import { Response } from 'express';
+
+import { createHandler } from './create-handler';
+import {
+  Context,
+  MatchedMock,
+  ResponseProps,
+  SequenceResponse,
+  SequenceState,
+  UpdateContext,
+} from './types';
+
+export { createSequences, createMockHandler, Sequences };
+
+type Sequences = ReturnType<typeof createSequences>;
+
+function createSequences() {
+  let sequences: Record<string, SequenceState> = {};
+
+  return {
+    getNextIndex,
+    getSequences,
+    resetSequences,
+  };
+
+  // Returns undefined when the request should fall through
+  function getNextIndex(
+    mock: MatchedMock,
+    length: number,
+    afterLast: SequenceResponse<
+      unknown
+    >['__sequence']['afterLast'] = 'repeatLast',
+  ) {
+    const key = JSON.stringify(mock);
+    if (!sequences[key]) {
+      sequences[key] = { ...mock, calls: 0, length };
+    }
+
+    const sequence = sequences[key];
+    const index = sequence.calls;
+    sequence.calls += 1;
+
+    if (index < length) {
+      return index;
+    }
+
+    switch (afterLast) {
+      case 'loop':
+        return index % length;
+      case 'fallThrough':
+        return undefined;
+      default:
+        return length - 1;
+    }
+  }
+
+  function getSequences() {
+    return Object.values(sequences);
+  }
+
+  function resetSequences() {
+    sequences = {};
+  }
+}
+
+// Handles both plain and sequenced responses, returning false when the request
+// has fallen through
+function createMockHandler<TInput, TResponse>({
+  mock,
+  sequences,
+  response,
+  updateContext,
+  getContext,
+  seed,
+  ...rest
+}: ResponseProps<TResponse | SequenceResponse<TResponse>> & {
+  mock: MatchedMock;
+  sequences: Sequences;
+  updateContext: UpdateContext;
+  getContext: () => Context;
+  seed: string;
+}): (req: TInput, res: Response) => boolean {
+  // Each mock gets its own fake data
+  const mockSeed = `${seed} ${JSON.stringify(mock)}`;
+
+  if (!isSequence(response)) {
+    const handler = createHandler<TInput, any>({
+      ...rest,
+      response,
+      updateContext,
+      getContext,
+      seed: mockSeed,
+      mock,
+    });
+
+    return (req, res) => {
+      handler(req, res).catch(error => sendError(res, error));
+      return true;
+    };
+  }
+
+  const {
+    __sequence: { responses, afterLast },
+  } = response;
+  const handlers = responses.map(responseProps =>
+    createHandler<TInput, any>({
+      ...rest,
+      ...responseProps,
+      updateContext,
+      getContext,
+      seed: mockSeed,
+      mock,
+    }),
+  );
+
+  return (req, res) => {
+    const index =
+      handlers.length > 0
+        ? sequences.getNextIndex(mock, handlers.length, afterLast)
+        : undefined;
+
+    if (index === undefined) {
+      return false;
+    }
+
+    handlers[index](req, res).catch(error => sendError(res, error));
+    return true;
+  };
+}
+
+// Anything that fails while responding is logged rather than crashing the
+// server
+function sendError(res: Response, error: Error) {
+  console.error('Mock response failed', error);
+
+  if (!res.headersSent) {
+    res.status(500).json({ message: error.message });
+  } else if (!res.finished) {
+    res.connection.destroy();
+  }
+}
+
+function isSequence<TResponse>(
+  response: TResponse | SequenceResponse<TResponse> | undefined,
+): response is SequenceResponse<TResponse> {
+  return (
+    response !== null &&
+    typeof response === 'object' &&
+    !!(response as SequenceResponse<TResponse>).__sequence &&
+    Object.keys(response as object).length === 1
+  );
+}
@@ -0,0 +1,41 @@
+import { IncomingMessage } from 'http';
+
+import { parseCookies } from './match';
+
+export { getSessionId, getAdminSessionId };
+
+const sessionHeader = 'x-mock-session';
+const sessionCookie = 'mock-session';
+
+// Requests without a session use the global scenarios and context
+function getSessionId({
+  headers,
+}: Pick<IncomingMessage, 'headers'>): string | undefined {
+  const header = headers[sessionHeader];
+  if (typeof header === 'string' && header !== '') {
+    return header;
+  }
+
+  return parseCookies(headers.cookie)[sessionCookie] || undefined;
+}
+
+// API requests can also name the session in the body or query, e.g.
+// `?session=worker-1`
+function getAdminSessionId({
+  headers,
+  query,
+  body,
+}: Pick<IncomingMessage, 'headers'> & {
+  query: Record<string, any>;
+  body?: any;
+}) {
+  if (body && typeof body.session === 'string') {
+    return body.session || undefined;
+  }
+
+  if (typeof query.session === 'string') {
+    return query.session || undefined;
+  }
+
+  return getSessionId({ headers });
+}
@@ -0,0 +1,110 @@
+import { Response } from 'express';
+
+import {
+  Context,
+  Fake,
+  StreamChunk,
+  StreamResponse,
+  UpdateContext,
+} from './types';
+
+export { isStream, sendStream };
+
+function isStream(response: any): response is StreamResponse<any> {
+  return (
+    response !== null &&
+    typeof response === 'object' &&
+    !!response.__stream &&
+    Object.keys(response).length === 1
+  );
+}
+
+async function sendStream<TInput>({
+  stream: {
+    __stream: { type = 'sse', chunks, close = true },
+  },
+  input,
+  res,
+  responseCode,
+  responseHeaders = {},
+}: {
+  stream: StreamResponse<TInput>;
+  input: TInput & {
+    updateContext: UpdateContext;
+    context: Context;
+    fake: Fake;
+  };
+  res: Response;
+  responseCode: number;
+  responseHeaders?: Record<string, string>;
+}) {
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  res.status(responseCode).set({
+    ...(type === 'sse'
+      ? {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        }
+      : { 'Content-Type': 'text/plain; charset=utf-8' }),
+    ...responseHeaders,
+  });
+  res.flushHeaders();
+
+  try {
+    const iterable = typeof chunks === 'function' ? chunks(input) : chunks;
+
+    for await (const chunk of iterable) {
+      const { delay = 0, ...rest }: StreamChunk =
+        typeof chunk === 'string' ? { data: chunk } : chunk;
+
+      if (delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      if (closed) {
+        return;
+      }
+
+      res.write(type === 'sse' ? formatEvent(rest) : formatChunk(rest.data));
+    }
+  } catch (error) {
+    // The headers have already been sent, so the client only sees the
+    // connection drop
+    console.error('Streamed response failed', error);
+    res.connection.destroy();
+    return;
+  }
+
+  if (close) {
+    res.end();
+  }
+}
+
+function formatEvent({ data, event, id }: StreamChunk) {
+  const lines: string[] = [];
+  if (id !== undefined) {
+    lines.push(`id: ${id}`);
+  }
+
+  if (event !== undefined) {
+    lines.push(`event: ${event}`);
+  }
+
+  (typeof data === 'string' ? data : JSON.stringify(data))
+    .split('\n')
+    .forEach(line => {
+      lines.push(`data: ${line}`);
+    });
+
+  return `${lines.join('\n')}\n\n`;
+}
+
+function formatChunk(data: StreamChunk['data']) {
+  // Objects are sent as newline delimited JSON
+  return typeof data === 'string' ? data : `${JSON.stringify(data)}\n`;
+}
@@ -0,0 +1,104 @@
+import { getValueAtPath } from './match';
+
+export { renderTemplate, renderHeaders };
+
+const placeholderPattern = /{{\s*([^{}\s]+)\s*}}/g;
+const wholePlaceholderPattern = /^{{\s*([^{}\s]+)\s*}}$/;
+// Counts often come from the request, e.g. "{{query.limit}}"
+const maxArrayLength = 1000;
+
+// Replaces placeholders such as "{{params.id}}" in strings anywhere in the
+// value, leaving Buffers, streams and functions alone
+function renderTemplate(value: any, data: Record<string, any>): any {
+  if (typeof value === 'string') {
+    // A string that is only a placeholder keeps the type of the value, e.g. a
+    // number from the body
+    const wholeMatch = wholePlaceholderPattern.exec(value);
+
+    return wholeMatch
+      ? getTemplateValue(data, wholeMatch[1])
+      : interpolate(value, data);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => renderTemplate(item, data));
+  }
+
+  // { __array: { count, item } } repeats item, with "{{index}}" set for each
+  if (
+    isPlainObject(value) &&
+    isPlainObject(value.__array) &&
+    Object.keys(value).length === 1
+  ) {
+    const { count, item } = value.__array;
+
+    return Array.from(
+      { length: getArrayLength(renderTemplate(count, data)) },
+      (_, index) => renderTemplate(item, { ...data, index }),
+    );
+  }
+
+  if (isPlainObject(value)) {
+    return Object.entries(value).reduce<Record<string, any>>(
+      (result, [key, item]) => {
+        result[key] = renderTemplate(item, data);
+        return result;
+      },
+      {},
+    );
+  }
+
+  return value;
+}
+
+function getArrayLength(count: any) {
+  const length = Math.floor(Number(count));
+
+  return length > 0 ? Math.min(length, maxArrayLength) : 0;
+}
+
+function renderHeaders(
+  headers: Record<string, string> | undefined,
+  data: Record<string, any>,
+) {
+  if (!headers) {
+    return headers;
+  }
+
+  return Object.entries(headers).reduce<Record<string, string>>(
+    (result, [name, value]) => {
+      result[name] = interpolate(value, data);
+      return result;
+    },
+    {},
+  );
+}
+
+function interpolate(value: string, data: Record<string, any>) {
+  return value.replace(placeholderPattern, (_, path: string) => {
+    const replacement = getTemplateValue(data, path);
+    if (replacement === undefined || replacement === null) {
+      return '';
+    }
+
+    return typeof replacement === 'object'
+      ? JSON.stringify(replacement)
+      : String(replacement);
+  });
+}
+
+// Functions such as "{{fake.name}}" are called to get their value
+function getTemplateValue(data: Record<string, any>, path: string) {
+  const value = getValueAtPath(data, path);
+
+  return typeof value === 'function' ? value() : value;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
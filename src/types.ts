@@ -1,3 +1,6 @@
+import { ServerWithKill } from 'server-with-kill';
+import { Readable } from 'stream';
+
 export type Default =
   | Mock[]
   | {
@@ -11,11 +14,21 @@ export type Scenarios = {
     | {
         group?: string;
         context?: Context;
+        seed?: string | number;
         mocks: Mock[];
       };
 };
 
-export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+export type HttpMethod =
+  | 'GET'
+  | 'POST'
+  | 'PUT'
+  | 'DELETE'
+  | 'PATCH'
+  | 'HEAD'
+  | 'OPTIONS'
+  | 'ALL'
+  | '*';
 
 export type Override<TResponse> = {
   __override: ResponseProps<TResponse>;
@@ -25,6 +38,7 @@ export type ResponseFunction<TInput, TResponse> = (
   input: TInput & {
     updateContext: UpdateContext;
     context: Context;
+    fake: Fake;
   },
 ) => TResponse | Override<TResponse> | Promise<TResponse | Override<TResponse>>;
 
@@ -34,25 +48,84 @@ export type MockResponse<TInput, TResponse> =
 
 export type HttpResponse = Record<string, any> | string | null;
 
+export type StreamChunk = {
+  data: string | Record<string, any>;
+  event?: string;
+  id?: string;
+  delay?: number;
+};
+
+export type StreamResponse<TInput = Record<string, any>> = {
+  __stream: {
+    type?: 'sse' | 'chunked';
+    chunks:
+      | Array<StreamChunk>
+      | ((
+          input: TInput & {
+            updateContext: UpdateContext;
+            context: Context;
+            fake: Fake;
+          },
+        ) => AsyncIterable<StreamChunk | string>);
+    close?: boolean;
+  };
+};
+
+export type FileResponse = {
+  __file: {
+    path?: string;
+    // A function, as a stream can only be read once
+    content?: Buffer | (() => Readable);
+    contentType?: string;
+    download?: boolean | string;
+  };
+};
+
 export type ResponseProps<TResponse> = {
   response?: TResponse;
   responseCode?: number;
   responseHeaders?: Record<string, string>;
-  responseDelay?: number;
+  responseDelay?: Delay;
+};
+
+export type Delay = number | { min: number; max: number };
+
+export type SequenceResponse<TResponse> = {
+  __sequence: {
+    responses: Array<ResponseProps<TResponse>>;
+    afterLast?: 'repeatLast' | 'loop' | 'fallThrough';
+  };
+};
+
+export type HttpInput = {
+  query: Record<string, string | Array<string>>;
+  body: Record<string, any>;
+  params: Record<string, string>;
+};
+
+export type HttpMatch = {
+  query?: Record<string, string | Array<string>>;
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+  body?: Record<string, any> | string;
+  bodyPaths?: Record<string, any>;
 };
 
 export type HttpMock = {
   url: string | RegExp;
   method: HttpMethod;
+  match?: HttpMatch;
 } & ResponseProps<
-  MockResponse<
-    {
-      query: Record<string, string | Array<string>>;
-      body: Record<string, any>;
-      params: Record<string, string>;
-    },
-    HttpResponse
-  >
+  | MockResponse<
+      HttpInput,
+      HttpResponse | StreamResponse<HttpInput> | FileResponse
+    >
+  | SequenceResponse<
+      MockResponse<
+        HttpInput,
+        HttpResponse | StreamResponse<HttpInput> | FileResponse
+      >
+    >
 >;
 
 export type GraphQlResponse = {
@@ -60,35 +133,303 @@ export type GraphQlResponse = {
   errors?: Array<any>;
 };
 
-export type Operation = {
+export type OperationInput = {
+  variables: Record<string, any>;
+};
+
+export type OperationMatch = {
+  variables?: Record<string, any>;
+};
+
+export type QueryOperation = {
   type: 'query' | 'mutation';
   name: string;
+  match?: OperationMatch;
 } & ResponseProps<
-  MockResponse<
-    {
-      variables: Record<string, any>;
-    },
-    GraphQlResponse | HttpResponse
-  >
+  | MockResponse<OperationInput, GraphQlResponse | HttpResponse>
+  | SequenceResponse<
+      MockResponse<OperationInput, GraphQlResponse | HttpResponse>
+    >
 >;
 
+export type SubscriptionEvent = {
+  response: GraphQlResponse;
+  delay?: number;
+};
+
+export type SubscriptionResponseFunction = (input: {
+  variables: Record<string, any>;
+  context: Context;
+  updateContext: UpdateContext;
+  push: (response: GraphQlResponse) => void;
+  complete: () => void;
+}) => void | (() => void) | Promise<void | (() => void)>;
+
+export type SubscriptionOperation = {
+  type: 'subscription';
+  name: string;
+  response: Array<SubscriptionEvent> | SubscriptionResponseFunction;
+};
+
+export type Operation = QueryOperation | SubscriptionOperation;
+
+export type GraphQlTypeResolver = (input: {
+  context: Context;
+  updateContext: UpdateContext;
+}) => any;
+
+export type GraphQlFieldResolver = (input: {
+  parent: Record<string, any>;
+  args: Record<string, any>;
+  context: Context;
+  updateContext: UpdateContext;
+}) => any;
+
+export type GraphQlResolvers = {
+  [typeName: string]:
+    | GraphQlTypeResolver
+    | { [fieldName: string]: GraphQlFieldResolver };
+};
+
 export type GraphQlMock = {
   url: string;
   method: 'GRAPHQL';
-  operations: Array<Operation>;
+  operations?: Array<Operation>;
+  schema?: string;
+  resolvers?: GraphQlResolvers;
 };
 
-export type Mock = HttpMock | GraphQlMock;
+export type WebSocketMessage = string | Record<string, any> | Array<any>;
+
+export type WebSocketEvent = {
+  response: WebSocketMessage;
+  delay?: number;
+};
+
+export type WebSocketConnectFunction = (input: {
+  send: (message: WebSocketMessage) => void;
+  close: () => void;
+  context: Context;
+  updateContext: UpdateContext;
+}) => void | (() => void) | Promise<void | (() => void)>;
+
+export type WebSocketReply = {
+  match?:
+    | string
+    | RegExp
+    | Record<string, any>
+    | ((message: string) => boolean);
+  response:
+    | WebSocketMessage
+    | ((input: {
+        message: string;
+        send: (message: WebSocketMessage) => void;
+        context: Context;
+        updateContext: UpdateContext;
+      }) =>
+        | WebSocketMessage
+        | undefined
+        | void
+        | Promise<WebSocketMessage | undefined | void>
+      );
+  delay?: number;
+};
+
+export type WebSocketMock = {
+  url: string | RegExp;
+  method: 'WEBSOCKET';
+  onConnect?: Array<WebSocketEvent> | WebSocketConnectFunction;
+  replies?: Array<WebSocketReply>;
+};
+
+export type Mock = HttpMock | GraphQlMock | WebSocketMock;
+
+export type OpenApiDocument = {
+  openapi: string;
+  paths: Record<string, Record<string, any>>;
+  components?: Record<string, any>;
+};
+
+export type OpenApiOptions = {
+  basePath?: string;
+};
+
+export type HarHeader = {
+  name: string;
+  value: string;
+};
+
+export type HarDocument = {
+  log: {
+    entries: Array<{
+      request: {
+        method: string;
+        url: string;
+        headers: HarHeader[];
+        postData?: {
+          mimeType: string;
+          text?: string;
+        };
+      };
+      response: {
+        status: number;
+        headers: HarHeader[];
+        content: {
+          mimeType?: string;
+          text?: string;
+          encoding?: string;
+        };
+      };
+    }>;
+  };
+};
+
+export type HarOptions = {
+  scenario?: string;
+  duplicates?: 'first' | 'last' | 'sequence';
+  ignoreHeaders?: string[];
+};
+
+export type ProxyOptions = {
+  target: string;
+  paths?: Array<string | RegExp>;
+  excludePaths?: Array<string | RegExp>;
+  requestHeaders?: Record<string, string | null>;
+  responseHeaders?: Record<string, string | null>;
+  changeOrigin?: boolean;
+};
+
+export type RecordOptions = {
+  file: string;
+  scenario?: string;
+};
 
 export type Options = {
   port?: number;
   uiPath?: string;
   modifyScenariosPath?: string;
   resetScenariosPath?: string;
+  requestsPath?: string;
+  requestsLimit?: number;
+  sequencesPath?: string;
+  contextPath?: string;
+  contextStrategy?: ContextStrategy;
+  proxy?: string | ProxyOptions;
+  record?: string | RecordOptions;
+  seed?: string | number;
+  networkPath?: string;
+  networkProfile?: string;
+  networkProfiles?: Record<string, NetworkProfile>;
+  faultsPath?: string;
+  faults?: Record<string, Fault>;
+};
+
+export type NetworkProfile = {
+  latency?: Delay;
+  bandwidth?: number;
+  offline?: boolean;
+};
+
+export type Fault = {
+  type: 'error' | 'reset' | 'hang' | 'malformed' | 'graphQlErrors';
+  url?: string | RegExp;
+  operationType?: 'query' | 'mutation';
+  operationName?: string;
+  rate?: number;
+  responseCode?: number;
+  response?: HttpResponse;
+  errors?: Array<any>;
+  data?: null | Record<string, any>;
+  enabled?: boolean;
 };
 
 export type Context = Record<string, any>;
 
+export type ContextStrategy = 'reset' | 'merge' | 'keep';
+
+export type Fake = {
+  number: (options?: { min?: number; max?: number }) => number;
+  pick: <T>(items: T[]) => T;
+  firstName: () => string;
+  lastName: () => string;
+  name: () => string;
+  email: () => string;
+  uuid: () => string;
+  date: (options?: { from?: string | Date; to?: string | Date }) => string;
+  price: (options?: { min?: number; max?: number }) => number;
+  lorem: (wordCount?: number) => string;
+  array: <T>(count: number, createItem: (index: number) => T) => T[];
+};
+
 export type UpdateContext = (
   partialContext: Context | ((context: Context) => Context),
 ) => Context;
+
+export type MatchedMock = {
+  url: string;
+  method: string;
+  operationType?: string;
+  operationName?: string;
+  match?: HttpMatch | OperationMatch;
+};
+
+export type JournalEntry = {
+  id: number;
+  timestamp: string;
+  method: string;
+  path: string;
+  query: Record<string, any>;
+  headers: Record<string, string | string[] | undefined>;
+  body: any;
+  graphQl?: {
+    operationType: 'query' | 'mutation' | 'subscription';
+    operationName: string;
+    variables: Record<string, any>;
+  };
+  mock: MatchedMock | null;
+  responseCode: number | null;
+  duration: number | null;
+  session: string | null;
+};
+
+export type JournalFilters = {
+  session?: string;
+  method?: string;
+  path?: string | RegExp;
+  operationName?: string;
+  operationType?: string;
+  matched?: boolean;
+};
+
+export type SequenceState = MatchedMock & {
+  calls: number;
+  length: number;
+};
+
+// The server itself, so it can still be used as it was before the controller
+// methods were added
+export type MockServer = Omit<ServerWithKill, keyof MockServerController> &
+  MockServerController;
+
+export type MockServerController = {
+  server: ServerWithKill;
+  setScenarios: (
+    scenarios: string[],
+    sessionId?: string,
+    contextStrategy?: ContextStrategy,
+  ) => void;
+  resetScenarios: (
+    sessionId?: string,
+    contextStrategy?: ContextStrategy,
+  ) => void;
+  getSelectedScenarios: (sessionId?: string) => string[];
+  getContext: (sessionId?: string) => Context;
+  setContext: (context: Context, sessionId?: string) => void;
+  addMocks: (mocks: Mock[]) => void;
+  getRequests: (filters?: JournalFilters) => JournalEntry[];
+  getNetworkProfile: () => string | undefined;
+  setNetworkProfile: (profile?: string) => void;
+  getEnabledFaults: () => string[];
+  setFaults: (faults: string[]) => void;
+  close: (callback?: (error?: Error) => void) => Promise<void>;
+};
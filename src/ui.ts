@@ -1,39 +1,126 @@
-import { Scenarios } from './types';
+import { ContextStrategy, Scenarios } from './types';
 import { RequestHandler } from 'express';
 
+import { contextStrategies } from './apis';
+import { Faults } from './fault';
+import { getAdminSessionId } from './session';
+
 export { getUi, updateUi };
 
 function getUi({
-  scenarioMocks,
+  getScenarioMocks,
   getScenarios,
+  getSessionIds,
+  getLoadError,
+  defaultContextStrategy,
+  getNetworkProfile,
+  getNetworkProfileNames,
+  faults,
 }: {
-  scenarioMocks: Scenarios;
-  getScenarios: () => string[];
+  getScenarioMocks: () => Scenarios;
+  getScenarios: (sessionId?: string) => string[];
+  getSessionIds: () => string[];
+  getLoadError: () => string | undefined;
+  defaultContextStrategy: ContextStrategy;
+  getNetworkProfile: () => string | undefined;
+  getNetworkProfileNames: () => string[];
+  faults: Faults;
 }): RequestHandler {
-  return (_, res) => {
-    const { groups, other } = getPageVariables(scenarioMocks, getScenarios());
+  return (req, res) => {
+    const sessionId = getAdminSessionId(req);
+    const { groups, other } = getPageVariables(
+      getScenarioMocks(),
+      getScenarios(sessionId),
+    );
 
     res.render('index.njk', {
       groups,
       other,
+      session: sessionId,
+      sessions: getSessionIds(),
+      contextStrategy: defaultContextStrategy,
+      loadError: getLoadError(),
+      networkProfile: getNetworkProfile(),
+      networkProfiles: getNetworkProfileNames(),
+      faults: getFaultVariables(faults),
     });
   };
 }
 
 function updateUi({
-  groupNames,
-  scenarioNames,
-  scenarioMocks,
+  getScenarioMocks,
+  getScenarios,
   updateScenarios,
+  getSessionIds,
+  getLoadError,
+  defaultContextStrategy,
+  getNetworkProfile,
+  getNetworkProfileNames,
+  setNetworkProfile,
+  faults,
 }: {
-  groupNames: string[];
-  scenarioNames: string[];
-  scenarioMocks: Scenarios;
-  updateScenarios: (scenarios: string[]) => void;
+  getScenarioMocks: () => Scenarios;
+  getScenarios: (sessionId?: string) => string[];
+  updateScenarios: (
+    scenarios: string[],
+    sessionId?: string,
+    contextStrategy?: ContextStrategy,
+  ) => void;
+  getSessionIds: () => string[];
+  getLoadError: () => string | undefined;
+  defaultContextStrategy: ContextStrategy;
+  getNetworkProfile: () => string | undefined;
+  getNetworkProfileNames: () => string[];
+  setNetworkProfile: (profile?: string) => void;
+  faults: Faults;
 }): RequestHandler {
-  return ({ body: { scenarios: scenariosBody, button, ...rest } }, res) => {
+  return (req, res) => {
+    const {
+      body: { scenarios: scenariosBody, button, ...rest },
+    } = req;
+    const scenarioMocks = getScenarioMocks();
+    const scenarioNames = Object.keys(scenarioMocks);
+    const groupNames = getGroupNames(scenarioMocks);
+    const sessionId = getAdminSessionId(req);
+    const contextStrategy = contextStrategies.includes(rest.contextStrategy)
+      ? (rest.contextStrategy as ContextStrategy)
+      : defaultContextStrategy;
     let updatedScenarios: string[] = [];
 
+    // Network profiles and faults apply to every session and leave scenarios
+    // alone
+    if (button === 'network' || button === 'faults') {
+      const networkProfile = rest.networkProfile || undefined;
+      if (
+        button === 'network' &&
+        (networkProfile === undefined ||
+          getNetworkProfileNames().includes(networkProfile))
+      ) {
+        setNetworkProfile(networkProfile);
+      }
+
+      if (button === 'faults') {
+        const faultNames = Object.keys(faults.getFaults());
+        faults.setEnabledFaults(
+          ([] as string[])
+            .concat(rest.faults == null ? [] : rest.faults)
+            .filter(faultName => faultNames.includes(faultName)),
+        );
+      }
+
+      res.render('index.njk', {
+        ...getPageVariables(scenarioMocks, getScenarios(sessionId)),
+        session: sessionId,
+        sessions: getSessionIds(),
+        contextStrategy,
+        loadError: getLoadError(),
+        networkProfile: getNetworkProfile(),
+        networkProfiles: getNetworkProfileNames(),
+        faults: getFaultVariables(faults),
+      });
+      return;
+    }
+
     if (button === 'modify') {
       updatedScenarios = groupNames
         .reduce<string[]>((result, groupName) => {
@@ -47,7 +134,7 @@ function updateUi({
         .filter(scenarioName => scenarioNames.includes(scenarioName));
     }
 
-    updateScenarios(updatedScenarios);
+    updateScenarios(updatedScenarios, sessionId, contextStrategy);
 
     const { groups, other } = getPageVariables(scenarioMocks, updatedScenarios);
 
@@ -55,10 +142,42 @@ function updateUi({
       groups,
       other,
       updatedScenarios,
+      session: sessionId,
+      sessions: getSessionIds(),
+      contextStrategy,
+      loadError: getLoadError(),
+      networkProfile: getNetworkProfile(),
+      networkProfiles: getNetworkProfileNames(),
+      faults: getFaultVariables(faults),
     });
   };
 }
 
+function getFaultVariables(faults: Faults) {
+  const enabledFaults = faults.getEnabledFaults();
+
+  return Object.entries(faults.getFaults()).map(([name, { type }]) => ({
+    name,
+    type,
+    enabled: enabledFaults.includes(name),
+  }));
+}
+
+function getGroupNames(scenarioMocks: Scenarios) {
+  return Object.values(scenarioMocks).reduce<string[]>((result, mock) => {
+    if (
+      Array.isArray(mock) ||
+      mock.group == null ||
+      result.includes(mock.group)
+    ) {
+      return result;
+    }
+
+    result.push(mock.group);
+    return result;
+  }, []);
+}
+
 type Groups = Array<{
   name: string;
   noneChecked: boolean;
@@ -0,0 +1,608 @@
+import { contextStrategies } from './apis';
+import { getMatchKey } from './match';
+import { networkProfiles } from './network';
+import { Default, Options, Scenarios } from './types';
+
+export { validateConfig, validateMocks, getConfigErrors };
+
+const httpMethods = [
+  'GET',
+  'POST',
+  'PUT',
+  'DELETE',
+  'PATCH',
+  'HEAD',
+  'OPTIONS',
+  'ALL',
+  '*',
+];
+const methods = httpMethods.concat(['GRAPHQL', 'WEBSOCKET']);
+const operationTypes = ['query', 'mutation', 'subscription'];
+const pathOptions: Array<keyof Options> = [
+  'uiPath',
+  'modifyScenariosPath',
+  'resetScenariosPath',
+  'requestsPath',
+  'sequencesPath',
+  'contextPath',
+  'networkPath',
+  'faultsPath',
+];
+const faultTypes = ['error', 'reset', 'hang', 'malformed', 'graphQlErrors'];
+
+// Throws with every problem found, rather than stopping at the first one
+function validateConfig(config: {
+  default: Default;
+  scenarios?: Scenarios;
+  options?: Options;
+}) {
+  throwErrors(getConfigErrors(config));
+}
+
+function getConfigErrors({
+  default: defaultMocks,
+  scenarios = {},
+  options = {},
+}: {
+  default: any;
+  scenarios?: any;
+  options?: any;
+}) {
+  return getMockListErrors(defaultMocks, 'default')
+    .concat(getScenariosErrors(scenarios))
+    .concat(getOptionsErrors(options));
+}
+
+function validateMocks(mocks: any, location: string) {
+  throwErrors(getMocksErrors(mocks, location));
+}
+
+function throwErrors(errors: string[]) {
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid mock configuration:\n${errors
+        .map(error => `- ${error}`)
+        .join('\n')}`,
+    );
+  }
+}
+
+function getScenariosErrors(scenarios: any) {
+  if (!isObject(scenarios)) {
+    return ['"scenarios" must be an object'];
+  }
+
+  return Object.entries(scenarios).reduce<string[]>(
+    (result, [name, scenario]) =>
+      result.concat(getMockListErrors(scenario, `scenarios.${name}`)),
+    [],
+  );
+}
+
+function getMockListErrors(mockList: any, location: string) {
+  if (Array.isArray(mockList)) {
+    return getMocksErrors(mockList, location);
+  }
+
+  if (!isObject(mockList)) {
+    return [`"${location}" must be an array of mocks or an object`];
+  }
+
+  const errors = getMocksErrors(mockList.mocks, `${location}.mocks`);
+  if (mockList.context !== undefined && !isObject(mockList.context)) {
+    errors.push(`"${location}.context" must be an object`);
+  }
+
+  if (
+    mockList.group !== undefined &&
+    (typeof mockList.group !== 'string' || mockList.group.trim() === '')
+  ) {
+    errors.push(`"${location}.group" must be a non-empty string`);
+  }
+
+  if (mockList.seed !== undefined && !isSeed(mockList.seed)) {
+    errors.push(`"${location}.seed" must be a string or a number`);
+  }
+
+  return errors;
+}
+
+function getMocksErrors(mocks: any, location: string) {
+  if (!Array.isArray(mocks)) {
+    return [`"${location}" must be an array`];
+  }
+
+  return mocks.reduce<string[]>(
+    (result, mock, index) =>
+      result.concat(getMockErrors(mock, `${location}[${index}]`)),
+    [],
+  );
+}
+
+function getMockErrors(mock: any, location: string) {
+  if (!isObject(mock)) {
+    return [`"${location}" must be an object`];
+  }
+
+  const errors = getUrlErrors(mock.url, `${location}.url`);
+
+  if (!methods.includes(mock.method)) {
+    errors.push(
+      `"${location}.method" must be one of ${methods
+        .map(method => `"${method}"`)
+        .join(', ')}`,
+    );
+  } else if (mock.method === 'GRAPHQL') {
+    errors.push(...getOperationsErrors(mock.operations, location));
+  } else if (mock.method === 'WEBSOCKET') {
+    if (
+      mock.onConnect !== undefined &&
+      !Array.isArray(mock.onConnect) &&
+      typeof mock.onConnect !== 'function'
+    ) {
+      errors.push(`"${location}.onConnect" must be an array or a function`);
+    }
+
+    if (mock.replies !== undefined && !Array.isArray(mock.replies)) {
+      errors.push(`"${location}.replies" must be an array`);
+    }
+  } else {
+    errors.push(...getResponsePropsErrors(mock, location));
+  }
+
+  return errors;
+}
+
+function getUrlErrors(url: any, location: string) {
+  if (url instanceof RegExp) {
+    return [];
+  }
+
+  if (typeof url !== 'string') {
+    return [`"${location}" must be a string or a RegExp`];
+  }
+
+  if (!url.startsWith('/')) {
+    return [`"${location}" must start with "/", received "${url}"`];
+  }
+
+  return [];
+}
+
+function getOperationsErrors(operations: any, location: string) {
+  if (operations === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(operations)) {
+    return [`"${location}.operations" must be an array`];
+  }
+
+  const operationKeys: string[] = [];
+
+  return operations.reduce<string[]>((result, operation, index) => {
+    const operationLocation = `${location}.operations[${index}]`;
+    if (!isObject(operation)) {
+      return result.concat(`"${operationLocation}" must be an object`);
+    }
+
+    const { type, name, match } = operation;
+    if (!operationTypes.includes(type)) {
+      result.push(
+        `"${operationLocation}.type" must be one of "query", "mutation", "subscription"`,
+      );
+    }
+
+    if (typeof name !== 'string' || name === '') {
+      result.push(`"${operationLocation}.name" must be a non-empty string`);
+    }
+
+    // Operations can only share a name when they match different variables
+    const key = `${type} ${name} ${getMatchKey(match)}`;
+    if (operationKeys.includes(key)) {
+      result.push(
+        `"${operationLocation}" has the same type and name as another operation, "${type} ${name}"`,
+      );
+    }
+    operationKeys.push(key);
+
+    if (type === 'subscription') {
+      if (
+        !Array.isArray(operation.response) &&
+        typeof operation.response !== 'function'
+      ) {
+        result.push(
+          `"${operationLocation}.response" must be an array of events or a function`,
+        );
+      }
+    } else {
+      result.push(...getResponsePropsErrors(operation, operationLocation));
+    }
+
+    return result;
+  }, []);
+}
+
+function getResponsePropsErrors(
+  { response, responseCode, responseHeaders, responseDelay }: any,
+  location: string,
+): string[] {
+  const errors: string[] = [];
+  if (
+    responseCode !== undefined &&
+    (!Number.isInteger(responseCode) ||
+      responseCode < 100 ||
+      responseCode > 599)
+  ) {
+    errors.push(`"${location}.responseCode" must be an HTTP status code`);
+  }
+
+  if (
+    responseHeaders !== undefined &&
+    (!isObject(responseHeaders) ||
+      Object.values(responseHeaders).some(value => typeof value !== 'string'))
+  ) {
+    errors.push(`"${location}.responseHeaders" must be an object of strings`);
+  }
+
+  if (responseDelay !== undefined && !isDelay(responseDelay)) {
+    errors.push(
+      `"${location}.responseDelay" must be a positive number or { min, max }`,
+    );
+  }
+
+  return errors.concat(getResponseErrors(response, `${location}.response`));
+}
+
+function getResponseErrors(response: any, location: string): string[] {
+  if (response === undefined || typeof response === 'function') {
+    return [];
+  }
+
+  if (isMarker(response, '__stream')) {
+    return [];
+  }
+
+  if (isMarker(response, '__file')) {
+    return getFileErrors(response.__file, `${location}.__file`);
+  }
+
+  if (isMarker(response, '__sequence')) {
+    const { responses } = response.__sequence;
+    if (!Array.isArray(responses)) {
+      return [`"${location}.__sequence.responses" must be an array`];
+    }
+
+    return responses.reduce<string[]>(
+      (result, responseProps, index) =>
+        result.concat(
+          getResponsePropsErrors(
+            responseProps,
+            `${location}.__sequence.responses[${index}]`,
+          ),
+        ),
+      [],
+    );
+  }
+
+  const problem = findUnserialisableValue(response, '', []);
+  return problem
+    ? [
+        `"${location}" cannot be sent as JSON, because it contains ${
+          problem.description
+        }${problem.path ? ` at "${problem.path}"` : ''}`,
+      ]
+    : [];
+}
+
+function getFileErrors(
+  { path, content, contentType, download }: any,
+  location: string,
+) {
+  const errors: string[] = [];
+  const hasContent = Buffer.isBuffer(content) || typeof content === 'function';
+
+  if ((path === undefined) === (content === undefined)) {
+    errors.push(`"${location}" must have either "path" or "content"`);
+  } else if (path !== undefined && typeof path !== 'string') {
+    errors.push(`"${location}.path" must be a string`);
+  } else if (content !== undefined && !hasContent) {
+    errors.push(
+      `"${location}.content" must be a Buffer or a function returning a stream`,
+    );
+  }
+
+  if (contentType !== undefined && typeof contentType !== 'string') {
+    errors.push(`"${location}.contentType" must be a string`);
+  }
+
+  if (
+    download !== undefined &&
+    typeof download !== 'boolean' &&
+    typeof download !== 'string'
+  ) {
+    errors.push(`"${location}.download" must be a boolean or a string`);
+  }
+
+  return errors;
+}
+
+function findUnserialisableValue(
+  value: any,
+  valuePath: string,
+  parents: any[],
+): { description: string; path: string } | undefined {
+  if (typeof value === 'function') {
+    return { description: 'a function', path: valuePath };
+  }
+
+  if (typeof value === 'symbol') {
+    return { description: 'a symbol', path: valuePath };
+  }
+
+  if (typeof value === 'bigint') {
+    return { description: 'a BigInt', path: valuePath };
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return undefined;
+  }
+
+  if (parents.includes(value)) {
+    return { description: 'a circular reference', path: valuePath };
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [`${valuePath}[${index}]`, item])
+    : Object.entries(value).map(([key, item]) => [
+        valuePath ? `${valuePath}.${key}` : key,
+        item,
+      ]);
+
+  for (const [itemPath, item] of entries) {
+    const problem = findUnserialisableValue(
+      item,
+      itemPath,
+      parents.concat([value]),
+    );
+    if (problem) {
+      return problem;
+    }
+  }
+
+  return undefined;
+}
+
+function getOptionsErrors(options: any) {
+  if (!isObject(options)) {
+    return ['"options" must be an object'];
+  }
+
+  const errors: string[] = [];
+  const {
+    port,
+    requestsLimit,
+    contextStrategy,
+    proxy,
+    record,
+    seed,
+    networkProfile,
+    networkProfiles: customNetworkProfiles = {},
+    faults = {},
+  } = options;
+
+  if (
+    port !== undefined &&
+    (!Number.isInteger(port) || port < 0 || port > 65535)
+  ) {
+    errors.push('"options.port" must be a whole number from 0 to 65535');
+  }
+
+  if (
+    requestsLimit !== undefined &&
+    (!Number.isInteger(requestsLimit) || requestsLimit < 0)
+  ) {
+    errors.push('"options.requestsLimit" must be a whole number of at least 0');
+  }
+
+  pathOptions.forEach(pathOption => {
+    const value = options[pathOption];
+    if (
+      value !== undefined &&
+      (typeof value !== 'string' || !value.startsWith('/'))
+    ) {
+      errors.push(`"options.${pathOption}" must be a string starting with "/"`);
+    }
+  });
+
+  if (
+    contextStrategy !== undefined &&
+    !contextStrategies.includes(contextStrategy)
+  ) {
+    errors.push(
+      '"options.contextStrategy" must be one of "reset", "merge" or "keep"',
+    );
+  }
+
+  if (proxy !== undefined) {
+    const target = isObject(proxy) ? proxy.target : proxy;
+    if (typeof target !== 'string' || !isAbsoluteUrl(target)) {
+      errors.push('"options.proxy" target must be an absolute URL');
+    }
+  }
+
+  if (record !== undefined) {
+    const file = isObject(record) ? record.file : record;
+    if (typeof file !== 'string') {
+      errors.push('"options.record" file must be a string');
+    }
+
+    if (!proxy) {
+      errors.push('"record" requires "proxy" to be set');
+    }
+  }
+
+  if (seed !== undefined && !isSeed(seed)) {
+    errors.push('"options.seed" must be a string or a number');
+  }
+
+  if (!isObject(customNetworkProfiles)) {
+    errors.push('"options.networkProfiles" must be an object');
+  } else {
+    Object.entries(customNetworkProfiles).forEach(([name, profile]) => {
+      errors.push(
+        ...getNetworkProfileErrors(profile, `options.networkProfiles.${name}`),
+      );
+    });
+  }
+
+  const profileNames = Object.keys(networkProfiles).concat(
+    isObject(customNetworkProfiles) ? Object.keys(customNetworkProfiles) : [],
+  );
+  if (networkProfile !== undefined && !profileNames.includes(networkProfile)) {
+    errors.push(
+      `"options.networkProfile" must be one of ${profileNames
+        .map(name => `"${name}"`)
+        .join(', ')}`,
+    );
+  }
+
+  if (!isObject(faults)) {
+    errors.push('"options.faults" must be an object');
+  } else {
+    Object.entries(faults).forEach(([name, fault]) => {
+      errors.push(...getFaultErrors(fault, `options.faults.${name}`));
+    });
+  }
+
+  return errors;
+}
+
+function getFaultErrors(fault: any, location: string) {
+  if (!isObject(fault)) {
+    return [`"${location}" must be an object`];
+  }
+
+  const {
+    type,
+    url,
+    operationType,
+    operationName,
+    rate,
+    responseCode,
+    response,
+    errors: graphQlErrors,
+    enabled,
+  } = fault;
+  const errors: string[] = [];
+  if (!faultTypes.includes(type)) {
+    errors.push(
+      `"${location}.type" must be one of ${faultTypes
+        .map(faultType => `"${faultType}"`)
+        .join(', ')}`,
+    );
+  }
+
+  if (url !== undefined) {
+    errors.push(...getUrlErrors(url, `${location}.url`));
+  }
+
+  if (
+    operationType !== undefined &&
+    !['query', 'mutation'].includes(operationType)
+  ) {
+    errors.push(
+      `"${location}.operationType" must be one of "query", "mutation"`,
+    );
+  }
+
+  if (operationName !== undefined && typeof operationName !== 'string') {
+    errors.push(`"${location}.operationName" must be a string`);
+  }
+
+  if (
+    rate !== undefined &&
+    (typeof rate !== 'number' || rate < 0 || rate > 100)
+  ) {
+    errors.push(`"${location}.rate" must be a percentage from 0 to 100`);
+  }
+
+  if (graphQlErrors !== undefined && !Array.isArray(graphQlErrors)) {
+    errors.push(`"${location}.errors" must be an array`);
+  }
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    errors.push(`"${location}.enabled" must be a boolean`);
+  }
+
+  return errors.concat(
+    getResponsePropsErrors({ response, responseCode }, location),
+  );
+}
+
+function getNetworkProfileErrors(profile: any, location: string) {
+  if (!isObject(profile)) {
+    return [`"${location}" must be an object`];
+  }
+
+  const errors: string[] = [];
+  const { latency, bandwidth, offline } = profile;
+  if (latency !== undefined && !isDelay(latency)) {
+    errors.push(
+      `"${location}.latency" must be a positive number or { min, max }`,
+    );
+  }
+
+  if (
+    bandwidth !== undefined &&
+    !(typeof bandwidth === 'number' && bandwidth > 0)
+  ) {
+    errors.push(`"${location}.bandwidth" must be a positive number`);
+  }
+
+  if (offline !== undefined && typeof offline !== 'boolean') {
+    errors.push(`"${location}.offline" must be a boolean`);
+  }
+
+  return errors;
+}
+
+// Either a number of milliseconds, or a range to pick from
+function isDelay(delay: any) {
+  if (isObject(delay)) {
+    const { min, max } = delay;
+    return (
+      typeof min === 'number' &&
+      typeof max === 'number' &&
+      min >= 0 &&
+      max >= min
+    );
+  }
+
+  return typeof delay === 'number' && delay >= 0;
+}
+
+function isSeed(seed: any) {
+  return typeof seed === 'string' || typeof seed === 'number';
+}
+
+function isAbsoluteUrl(url: string) {
+  try {
+    new URL(url);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+function isMarker(response: any, marker: string) {
+  return (
+    isObject(response) &&
+    !!response[marker] &&
+    Object.keys(response).length === 1
+  );
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,119 @@
+import fs, { FSWatcher } from 'fs';
+import path from 'path';
+
+import { loadMockFile } from './mock-file';
+import { Default, Scenarios } from './types';
+
+export { watchMocks };
+
+type LoadedMocks = {
+  default: Default;
+  scenarios?: Scenarios;
+};
+
+function watchMocks({
+  file,
+  onLoad,
+  onError,
+}: {
+  file: string;
+  onLoad: (mocks: LoadedMocks) => void;
+  onError: (error: Error) => void;
+}) {
+  const modulePath = require.resolve(path.resolve(file));
+  // JSON and YAML files are read in the same way as loadMockFile, so that YAML
+  // can be loaded at all and RegExp urls are converted
+  const isMockFile = /\.(json|ya?ml)$/i.test(modulePath);
+  let files = [modulePath];
+  let watchers: FSWatcher[] = [];
+  let timeout: NodeJS.Timeout | undefined;
+
+  load();
+
+  return { close };
+
+  function load() {
+    files.forEach(moduleFile => {
+      delete require.cache[moduleFile];
+    });
+
+    try {
+      onLoad(isMockFile ? loadMockFile(modulePath) : requireMocks());
+    } catch (error) {
+      // Keep watching the files that loaded last time, so fixing any of them
+      // triggers another load
+      onError(error instanceof Error ? error : new Error(String(error)));
+    }
+
+    watch();
+  }
+
+  function requireMocks() {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const mocks = require(modulePath);
+    if (!mocks || !mocks.default) {
+      throw new Error(`"${file}" must export "default" mocks`);
+    }
+
+    files = getModuleFiles(modulePath);
+    return { default: mocks.default, scenarios: mocks.scenarios };
+  }
+
+  function watch() {
+    closeWatchers();
+
+    watchers = files.reduce<FSWatcher[]>((result, moduleFile) => {
+      try {
+        result.push(fs.watch(moduleFile, scheduleLoad));
+      } catch (error) {
+        // The file may be part way through being replaced
+      }
+
+      return result;
+    }, []);
+  }
+
+  // Editors often write a file more than once when saving
+  function scheduleLoad() {
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+
+    timeout = setTimeout(load, 50);
+  }
+
+  function closeWatchers() {
+    watchers.forEach(watcher => {
+      watcher.close();
+    });
+    watchers = [];
+  }
+
+  function close() {
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+
+    closeWatchers();
+  }
+}
+
+// The module and everything it requires, apart from node_modules
+function getModuleFiles(modulePath: string, result: string[] = []) {
+  const loadedModule = require.cache[modulePath];
+  if (
+    result.includes(modulePath) ||
+    modulePath.includes(`${path.sep}node_modules${path.sep}`)
+  ) {
+    return result;
+  }
+
+  result.push(modulePath);
+  if (loadedModule) {
+    loadedModule.children.forEach((child: NodeModule) => {
+      getModuleFiles(child.id, result);
+    });
+  }
+
+  return result;
+}
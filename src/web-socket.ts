@@ -0,0 +1,185 @@
+import { IncomingMessage } from 'http';
+import { Socket } from 'net';
+import { URL } from 'url';
+import WebSocket from 'ws';
+
+import { isSubset } from './match';
+import {
+  Context,
+  Mock,
+  UpdateContext,
+  WebSocketMessage,
+  WebSocketMock,
+  WebSocketReply,
+} from './types';
+
+export {
+  createUpgradeHandler,
+  getWebSocketMocks,
+  getWebSocketRoutes,
+  WebSocketRoute,
+};
+
+type WebSocketRoute = {
+  url: string | RegExp;
+  handleConnection: (socket: WebSocket, req: IncomingMessage) => void;
+};
+
+function createUpgradeHandler(
+  getRoutes: (req: IncomingMessage) => WebSocketRoute[],
+) {
+  const webSocketServer = new WebSocket.Server({ noServer: true });
+
+  return (req: IncomingMessage, socket: Socket, head: Buffer) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    const webSocketRoute = getRoutes(req).find(({ url }) =>
+      typeof url === 'string' ? url === pathname : url.test(pathname),
+    );
+
+    if (!webSocketRoute) {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      return;
+    }
+
+    webSocketServer.handleUpgrade(req, socket, head, webSocket => {
+      webSocketRoute.handleConnection(webSocket, req);
+    });
+  };
+}
+
+function getWebSocketMocks(mocks: Mock[]) {
+  const initialWebSocketMocks = mocks.filter(
+    ({ method }) => method === 'WEBSOCKET',
+  ) as WebSocketMock[];
+
+  const webSocketMocksByUrl = initialWebSocketMocks.reduce<
+    Record<string, WebSocketMock>
+  >((result, mock) => {
+    // Always take the latest mock
+    result[String(mock.url)] = mock;
+
+    return result;
+  }, {});
+
+  return Object.values(webSocketMocksByUrl);
+}
+
+function getWebSocketRoutes({
+  webSocketMocks,
+  getContext,
+  updateContext,
+}: {
+  webSocketMocks: WebSocketMock[];
+  getContext: () => Context;
+  updateContext: UpdateContext;
+}): WebSocketRoute[] {
+  return webSocketMocks.map(({ url, onConnect = [], replies = [] }) => ({
+    url,
+    handleConnection: socket => {
+      const timeouts: NodeJS.Timeout[] = [];
+      let cleanUp: void | (() => void);
+      let closed = false;
+
+      const send = (message: WebSocketMessage) => {
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(
+            typeof message === 'string' ? message : JSON.stringify(message),
+          );
+        }
+      };
+      const close = () => socket.close();
+      // Errors thrown by match or response functions close the connection
+      // rather than ending the server
+      const closeWithError = (error: Error) => {
+        console.error(`WebSocket mock for "${String(url)}" failed`, error);
+        socket.close(1011, 'Mock failed');
+      };
+
+      socket.on('close', () => {
+        closed = true;
+        timeouts.forEach(clearTimeout);
+        if (cleanUp) {
+          cleanUp();
+        }
+      });
+
+      socket.on('message', data => {
+        reply(String(data)).catch(closeWithError);
+      });
+
+      if (typeof onConnect === 'function') {
+        new Promise<void | (() => void)>(resolve =>
+          resolve(
+            onConnect({ send, close, context: getContext(), updateContext }),
+          ),
+        ).then(result => {
+          if (closed) {
+            if (result) {
+              result();
+            }
+          } else {
+            cleanUp = result;
+          }
+        }, closeWithError);
+
+        return;
+      }
+
+      // Messages are sent one after another, each waiting for its own delay
+      let totalDelay = 0;
+      onConnect.forEach(({ response, delay = 0 }) => {
+        totalDelay += delay;
+        timeouts.push(setTimeout(() => send(response), totalDelay));
+      });
+
+      async function reply(message: string) {
+        const matchingReply = replies.find(({ match }) =>
+          matchesMessage(message, match),
+        );
+
+        if (!matchingReply) {
+          return;
+        }
+
+        const { response, delay = 0 } = matchingReply;
+        const actualResponse =
+          typeof response === 'function'
+            ? await response({
+                message,
+                send,
+                context: getContext(),
+                updateContext,
+              })
+            : response;
+
+        if (actualResponse !== undefined) {
+          timeouts.push(setTimeout(() => send(actualResponse), delay));
+        }
+      }
+    },
+  }));
+}
+
+function matchesMessage(message: string, match: WebSocketReply['match']) {
+  if (match === undefined) {
+    return true;
+  }
+
+  if (typeof match === 'string') {
+    return message === match;
+  }
+
+  if (match instanceof RegExp) {
+    return match.test(message);
+  }
+
+  if (typeof match === 'function') {
+    return match(message);
+  }
+
+  try {
+    return isSubset(JSON.parse(message), match);
+  } catch (error) {
+    return false;
+  }
+}